@@ -1,3 +1,5 @@
+import { Either } from "./Either";
+
 /**
  * A Box type that encapsulates a value and provides methods to manipulate it.
  * 値を包み込み、操作するためのメソッドを提供する Box 型。
@@ -41,7 +43,11 @@ export type Box<T> = {
 
   /**
    * Applies a function that returns a Box to the value inside this Box and flattens the result.
+   * The function is called right away and only once. Inside the function of another `flatMap` it is called
+   * once that `flatMap` needs the value instead, so deep and recursive chains do not grow the call stack.
    * Box 内の値に Box を返す関数を適用し、その結果を平坦化して返します。
+   * 関数は即座に 1 回だけ呼び出されます。別の `flatMap` の関数の中では、その `flatMap` が値を必要とした時点で呼び出されるため、
+   * 深い連鎖や再帰的な連鎖でもコールスタックが増えません。
    * @param fn - A function that returns a Box. / Box を返す関数。
    */
   readonly flatMap: <U>(fn: (value: T) => Box<U>) => Box<U>;
@@ -63,12 +69,85 @@ export type Box<T> = {
 };
 
 /**
- * Creates a new Box containing the given value.
- * 指定された値を含む新しい Box を作成します。
- * @param value - The value to encapsulate. / 包み込む値。
+ * The state of a `flatMap`, evaluated when the value of its Box is first needed.
+ * Its source and function are dropped once the function has been applied, and its value or error is kept once known.
+ * Box の値が最初に必要になった時点で評価される、`flatMap` の状態。
+ * ソースと関数は関数の適用後に破棄され、値またはエラーは判明した時点で保持されます。
+ */
+type Bind = {
+  source?: Box<unknown>;
+  fn?: (value: unknown) => Box<unknown>;
+  result?: { readonly value: unknown };
+  failure?: { readonly error: unknown };
+};
+
+const bind = Symbol("bind");
+
+/**
+ * A Box created by `flatMap`, holding the state of its `flatMap`.
+ * `flatMap` で作成され、その `flatMap` の状態を保持する Box。
+ */
+type Bound = { readonly [bind]?: Bind };
+
+/**
+ * The number of evaluations in progress. `flatMap`s created inside one are left to it instead of being evaluated right away.
+ * 進行中の評価の数。評価中に作成された `flatMap` は、即座に評価されずにその評価に任されます。
+ */
+let evaluating = 0;
+
+/**
+ * Evaluates a chain of pending `flatMap`s in a loop, keeping the call stack flat.
+ * The value of every `flatMap` passed through is stored in its state, so each function runs once.
+ * 保留中の `flatMap` の連鎖をループで評価し、コールスタックを平坦に保ちます。
+ * 通過したすべての `flatMap` の値はその状態に保存されるため、各関数は 1 回だけ実行されます。
+ * @param start - The Box to evaluate. / 評価する Box。
+ */
+const evaluate = <T>(start: Box<T>): T => {
+  // `flatMap`s waiting for the value of their source, and, once their function
+  // has been applied, for the value of the Box it returned.
+  const frames: Bind[] = [];
+  let current: Box<unknown> = start;
+  evaluating += 1;
+  try {
+    for (;;) {
+      const pending = (current as Bound)[bind];
+      if (pending?.source) {
+        frames.push(pending);
+        current = pending.source;
+        continue;
+      }
+      if (pending?.failure) throw pending.failure.error;
+      const value = pending?.result ? pending.result.value : current.getValue();
+      let frame = frames.pop();
+      while (frame && !frame.fn) {
+        frame.result = { value };
+        frame = frames.pop();
+      }
+      if (!frame) return value as T;
+      const fn = frame.fn as NonNullable<Bind["fn"]>;
+      frame.source = undefined;
+      frame.fn = undefined;
+      frames.push(frame);
+      current = fn(value);
+    }
+  } catch (error) {
+    // The functions already applied cannot run again, so their `flatMap`s keep failing with the error.
+    frames.forEach((frame) => {
+      if (!frame.fn) frame.failure = { error };
+    });
+    throw error;
+  } finally {
+    evaluating -= 1;
+  }
+};
+
+/**
+ * Creates a new Box whose value is produced by the given function.
+ * 指定された関数が生成する値を持つ新しい Box を作成します。
+ * @param getValue - A function producing the value. / 値を生成する関数。
  */
-const box = <T>(value: T): Box<T> => {
-  const map = <U>(fn: (value: T) => U): Box<U> => box(fn(value));
+const boxOf = <T>(getValue: () => T): Box<T> => {
+  const map = <U>(fn: (value: T) => U): Box<U> => box(fn(getValue()));
   const apply = function <A, B>(
     this: Box<(a: A) => B>,
     boxValue: Box<A>
@@ -76,10 +155,17 @@ const box = <T>(value: T): Box<T> => {
     const fn = this.getValue();
     return boxValue.map((a) => fn(a));
   };
-  const flatMap = <U>(fn: (value: T) => Box<U>): Box<U> => fn(value);
-  const getValue = () => value;
+  const flatMap = <U>(fn: (value: T) => Box<U>): Box<U> => {
+    const state: Bind = { source: self, fn: fn as Bind["fn"] };
+    const bound: Box<U> = boxOf(() =>
+      state.result ? (state.result.value as U) : evaluate(bound)
+    );
+    Object.defineProperty(bound, bind, { value: state });
+    if (evaluating === 0) evaluate(bound);
+    return bound;
+  };
 
-  return {
+  const self: Box<T> = {
     isBox: true,
     map,
     apply,
@@ -89,8 +175,16 @@ const box = <T>(value: T): Box<T> => {
     "<*>": apply,
     ">>=": flatMap,
   } as const;
+  return self;
 };
 
+/**
+ * Creates a new Box containing the given value.
+ * 指定された値を含む新しい Box を作成します。
+ * @param value - The value to encapsulate. / 包み込む値。
+ */
+const box = <T>(value: T): Box<T> => boxOf(() => value);
+
 /**
  * Checks if the given value is a Box.
  * 指定された値が Box かどうかを判定します。
@@ -123,6 +217,25 @@ function Do<T, U>(
   return step(undefined as never);
 }
 
+/**
+ * Runs a step function repeatedly without growing the call stack, until it returns a `Right`.
+ * A `Left` carries the state of the next step, and a `Right` carries the final value.
+ * `Right` を返すまで、コールスタックを増やさずにステップ関数を繰り返し実行します。
+ * `Left` は次のステップの状態を、`Right` は最終的な値を表します。
+ * @param initial - The initial state. / 初期状態。
+ * @param fn - A function computing the next step from the state. / 状態から次のステップを計算する関数。
+ */
+const tailRec = <A, B>(
+  initial: A,
+  fn: (state: A) => Box<Either<A, B>>
+): Box<B> => {
+  let step = fn(initial).getValue();
+  while (Either.isLeft(step)) {
+    step = fn(step.getValue()).getValue();
+  }
+  return box(step.getValue() as B);
+};
+
 /**
  * Box utility object containing helpers like `pack` and `isBox`.
  * `pack` や `isBox` を含む Box ユーティリティオブジェクト。
@@ -130,5 +243,6 @@ function Do<T, U>(
 export const Box = {
   do: Do,
   pack: box,
+  tailRec,
   isBox,
 } as const;
@@ -0,0 +1,339 @@
+import { CancellationError, Task } from "./Task";
+
+/**
+ * The mode of a `Cassette`.
+ * `"record"` runs the real tasks and records their outcomes, and `"replay"` serves the recorded outcomes without running them.
+ * `Cassette` のモード。
+ * `"record"` は実際のタスクを実行してその結果を記録し、`"replay"` はタスクを実行せずに記録された結果を返します。
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * A recorded call of a named `Task`.
+ * 名前付き `Task` の記録された呼び出し。
+ */
+export type CassetteInteraction = {
+  /**
+   * The name the `Task` was recorded under.
+   * `Task` が記録された名前。
+   */
+  readonly name: string;
+
+  /**
+   * The input identifying the call, compared on replay.
+   * 呼び出しを識別する入力。再生時に比較されます。
+   */
+  readonly input: unknown;
+
+  /**
+   * The outcome of the call.
+   * 呼び出しの結果。
+   */
+  readonly outcome:
+    | { readonly type: "success"; readonly value: unknown }
+    | {
+        readonly type: "failure";
+        readonly error: { readonly name: string; readonly message: string };
+      };
+};
+
+/**
+ * Loads and saves the interactions of a `Cassette`.
+ * `Cassette` の呼び出し記録を読み込み、保存します。
+ */
+export type CassetteStorage = {
+  /**
+   * Loads the recorded interactions, or an empty list if nothing has been recorded yet.
+   * 記録された呼び出しを読み込みます。まだ何も記録されていない場合は空のリストを返します。
+   */
+  readonly load: () => Promise<readonly CassetteInteraction[]>;
+
+  /**
+   * Replaces the recorded interactions.
+   * 記録された呼び出しを置き換えます。
+   * @param interactions - The interactions to save. / 保存する呼び出し。
+   */
+  readonly save: (
+    interactions: readonly CassetteInteraction[]
+  ) => Promise<void>;
+};
+
+/**
+ * Records the outcomes of named `Task`s and replays them, so that tests can run without the services behind them.
+ * Outcomes are stored as JSON, so successful values must be JSON-serializable and replayed errors are plain `Error`s with the recorded name and message.
+ * 名前付き `Task` の結果を記録して再生し、テストを外部サービスなしで実行できるようにします。
+ * 結果は JSON として保存されるため、成功時の値は JSON に変換可能である必要があり、再生されるエラーは記録された名前とメッセージを持つ通常の `Error` になります。
+ */
+export type Cassette = {
+  readonly isCassette: true; // Identifies the object as a `Cassette`. / オブジェクトが `Cassette` であることを識別。
+
+  /**
+   * The mode of the cassette.
+   * カセットのモード。
+   */
+  readonly mode: CassetteMode;
+
+  /**
+   * Returns a `Task` that records or replays the given `Task` under the given name.
+   * Calls with the same name are replayed in the order they were recorded, and each must have the recorded input.
+   * 指定された名前で、指定された `Task` を記録または再生する `Task` を返します。
+   * 同じ名前の呼び出しは記録された順に再生され、それぞれ記録時と同じ入力である必要があります。
+   * @param name - The name of the `Task`. / `Task` の名前。
+   * @param task - The `Task` to record. / 記録する `Task`。
+   * @param input - An optional JSON-serializable value identifying the call. / 呼び出しを識別する、JSON に変換可能な任意の値。
+   */
+  readonly record: <T>(name: string, task: Task<T>, input?: unknown) => Task<T>;
+
+  /**
+   * Wraps a function returning a `Task` so that every call is recorded or replayed under the given name, using its arguments as the input.
+   * `Task` を返す関数をラップし、引数を入力として、すべての呼び出しを指定された名前で記録または再生します。
+   * @param name - The name of the calls. / 呼び出しの名前。
+   * @param fn - The function to wrap. / ラップする関数。
+   */
+  readonly wrap: <A extends unknown[], T>(
+    name: string,
+    fn: (...args: A) => Task<T>
+  ) => (...args: A) => Task<T>;
+
+  /**
+   * Returns a `Task` that saves the interactions recorded so far to the storage.
+   * Interactions are saved in the order the calls started, and cancelled calls are left out.
+   * In `"replay"` mode nothing is recorded, so the storage is left untouched.
+   * これまでに記録された呼び出しをストレージに保存する `Task` を返します。
+   * 呼び出しは開始された順に保存され、キャンセルされた呼び出しは除外されます。
+   * `"replay"` モードでは何も記録されないため、ストレージは変更されません。
+   */
+  readonly save: () => Task<void>;
+
+  /**
+   * Returns a `Task` that fails with a `CassetteMismatchError` if some recorded interactions were never replayed.
+   * 再生されなかった記録済みの呼び出しがある場合に `CassetteMismatchError` で失敗する `Task` を返します。
+   */
+  readonly verify: () => Task<void>;
+};
+
+/**
+ * Options for creating a `Cassette`.
+ * `Cassette` を作成する際のオプション。
+ */
+export type CassetteOptions = {
+  /**
+   * The mode of the cassette.
+   * カセットのモード。
+   */
+  readonly mode: CassetteMode;
+
+  /**
+   * The storage of the interactions, such as `Cassette.memory()` or `Cassette.file(path)`.
+   * `Cassette.memory()` や `Cassette.file(path)` などの、呼び出し記録のストレージ。
+   */
+  readonly storage: CassetteStorage;
+};
+
+/**
+ * An error indicating that a replayed call does not match the recorded interactions.
+ * 再生された呼び出しが記録された呼び出しと一致しないことを示すエラー。
+ */
+export class CassetteMismatchError extends Error {
+  override readonly name = "CassetteMismatchError";
+
+  /**
+   * @param message - The error message. / エラーメッセージ。
+   */
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Converts a value to its JSON form, as it would be stored.
+ * 値を、保存される際の JSON の形に変換します。
+ * @param value - The value to convert. / 変換する値。
+ */
+const toJson = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * Creates a new `Cassette`. The storage is loaded on the first call.
+ * 新しい `Cassette` を作成します。ストレージは最初の呼び出し時に読み込まれます。
+ * @param options - The mode and storage of the cassette. / カセットのモードとストレージ。
+ */
+const create = (options: CassetteOptions): Cassette => {
+  const { mode, storage } = options;
+  const recorded: (CassetteInteraction | undefined)[] = [];
+  const cursors = new Map<string, number>();
+  let loading: Promise<readonly CassetteInteraction[]> | undefined;
+  const load = () => (loading ??= storage.load());
+
+  const recordCall = <T>(name: string, task: Task<T>, input: unknown) =>
+    Task.from((signal) => {
+      const index = recorded.push(undefined) - 1;
+      const keep = (outcome: CassetteInteraction["outcome"]) => {
+        recorded[index] = { name, input: toJson(input), outcome };
+      };
+      return task.run(signal).then(
+        (value) => {
+          keep({ type: "success", value: toJson(value) });
+          return value;
+        },
+        (error) => {
+          if (!(error instanceof CancellationError)) {
+            const failure =
+              error instanceof Error ? error : new Error(String(error));
+            keep({
+              type: "failure",
+              error: { name: failure.name, message: failure.message },
+            });
+          }
+          throw error;
+        }
+      );
+    });
+
+  const replayCall = <T>(name: string, input: unknown) =>
+    Task.from(() =>
+      load().then((interactions) => {
+        const calls = interactions.filter((call) => call.name === name);
+        const cursor = cursors.get(name) ?? 0;
+        const call = calls[cursor];
+        if (!call) {
+          throw new CassetteMismatchError(
+            `No recorded call of "${name}" is left (${calls.length} recorded)`
+          );
+        }
+        const expected = JSON.stringify(call.input);
+        const actual = JSON.stringify(toJson(input));
+        if (expected !== actual) {
+          throw new CassetteMismatchError(
+            `Call ${
+              cursor + 1
+            } of "${name}" was recorded with ${expected} but received ${actual}`
+          );
+        }
+        cursors.set(name, cursor + 1);
+        if (call.outcome.type === "failure") {
+          const { error } = call.outcome;
+          throw Object.assign(new Error(error.message), { name: error.name });
+        }
+        return call.outcome.value as T;
+      })
+    );
+
+  const record = <T>(name: string, task: Task<T>, input?: unknown): Task<T> =>
+    mode === "record"
+      ? recordCall(name, task, input)
+      : replayCall<T>(name, input);
+
+  return {
+    isCassette: true,
+    mode,
+    record,
+    wrap:
+      (name, fn) =>
+      (...args) =>
+        record(
+          name,
+          Task.from((signal) => fn(...args).run(signal)),
+          args
+        ),
+    save: () =>
+      Task.from(() =>
+        mode === "replay"
+          ? Promise.resolve()
+          : storage.save(
+              recorded.filter(
+                (call): call is CassetteInteraction => call !== undefined
+              )
+            )
+      ),
+    verify: () =>
+      Task.from(() =>
+        (mode === "replay" ? load() : Promise.resolve([])).then(
+          (interactions) => {
+            const seen = new Map<string, number>();
+            const unplayed = interactions.filter((call) => {
+              const index = seen.get(call.name) ?? 0;
+              seen.set(call.name, index + 1);
+              return index >= (cursors.get(call.name) ?? 0);
+            });
+            if (unplayed.length > 0) {
+              throw new CassetteMismatchError(
+                `${
+                  unplayed.length
+                } recorded call(s) were not replayed: ${unplayed
+                  .map((call) => `"${call.name}"`)
+                  .join(", ")}`
+              );
+            }
+          }
+        )
+      ),
+  };
+};
+
+/**
+ * Creates a `CassetteStorage` that keeps the interactions in memory.
+ * 呼び出し記録をメモリ上に保持する `CassetteStorage` を作成します。
+ * @param initial - The interactions to start with. / 最初に保持する呼び出し記録。
+ */
+const memory = (
+  initial: readonly CassetteInteraction[] = []
+): CassetteStorage => {
+  let interactions = initial;
+  return {
+    load: () => Promise.resolve(interactions),
+    save: (next) => {
+      interactions = next;
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * Creates a `CassetteStorage` that keeps the interactions in a JSON file. Only available on Node.js.
+ * `node:fs` is imported on first use, so the rest of the library stays usable in browsers.
+ * 呼び出し記録を JSON ファイルに保持する `CassetteStorage` を作成します。Node.js でのみ利用できます。
+ * `node:fs` は最初の使用時に読み込まれるため、ライブラリの他の部分はブラウザでも利用できます。
+ * @param path - The path of the JSON file. / JSON ファイルのパス。
+ */
+const file = (path: string): CassetteStorage => {
+  const fs = () => import("node:fs/promises");
+  return {
+    load: () =>
+      fs()
+        .then(({ readFile }) => readFile(path, "utf8"))
+        .then(
+          (text) => JSON.parse(text).interactions,
+          (error) => {
+            if (error?.code === "ENOENT") return [];
+            throw error;
+          }
+        ),
+    save: (interactions) =>
+      fs().then(({ writeFile }) =>
+        writeFile(
+          path,
+          `${JSON.stringify({ version: 1, interactions }, null, 2)}\n`
+        )
+      ),
+  };
+};
+
+/**
+ * Checks if the given value is a `Cassette`.
+ * 指定された値が `Cassette` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isCassette = (value: any): value is Cassette =>
+  value?.isCassette === true;
+
+/**
+ * Cassette utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `Cassette` ユーティリティオブジェクト。
+ */
+export const Cassette = {
+  create,
+  memory,
+  file,
+  isCassette,
+} as const;
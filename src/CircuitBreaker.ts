@@ -0,0 +1,267 @@
+import { Clock } from "./Clock";
+import { RBox } from "./RBox";
+import { CancellationError, Task } from "./Task";
+
+/**
+ * The state of a `CircuitBreaker`.
+ * `"closed"` lets every call through, `"open"` rejects every call, and `"half-open"` lets a few trial calls through.
+ * `CircuitBreaker` の状態。
+ * `"closed"` はすべての呼び出しを通し、`"open"` はすべての呼び出しを拒否し、`"half-open"` は少数の試行呼び出しのみを通します。
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Stops calling a failing dependency for a while once it has failed too often.
+ * 失敗が続いた依存先の呼び出しを、一定時間停止します。
+ */
+export type CircuitBreaker = {
+  readonly isCircuitBreaker: true; // Identifies the object as a `CircuitBreaker`. / オブジェクトが `CircuitBreaker` であることを識別。
+
+  /**
+   * The current state of the breaker, which can be subscribed to.
+   * 購読可能な、ブレーカーの現在の状態。
+   */
+  readonly state: RBox<CircuitState>;
+
+  /**
+   * Returns a `Task` that runs the given `Task` through the breaker.
+   * When the breaker is open, the `Task` fails with a `CircuitOpenError` without running.
+   * 指定された `Task` をブレーカー経由で実行する `Task` を返します。
+   * ブレーカーが開いている場合、`Task` は実行されずに `CircuitOpenError` で失敗します。
+   * @param task - The `Task` to protect. / 保護する `Task`。
+   * @param fallback - An optional function that recovers from a rejected or failed call. / 拒否または失敗した呼び出しから回復する任意の関数。
+   */
+  readonly protect: <T>(
+    task: Task<T>,
+    fallback?: (error: unknown) => Task<T>
+  ) => Task<T>;
+
+  /**
+   * Wraps a function returning a `Task` so that every call goes through the breaker.
+   * `Task` を返す関数をラップし、すべての呼び出しがブレーカーを経由するようにします。
+   * @param fn - The function to wrap. / ラップする関数。
+   * @param fallback - An optional function that recovers from a rejected or failed call. / 拒否または失敗した呼び出しから回復する任意の関数。
+   */
+  readonly wrap: <A extends unknown[], T>(
+    fn: (...args: A) => Task<T>,
+    fallback?: (error: unknown, ...args: A) => Task<T>
+  ) => (...args: A) => Task<T>;
+
+  /**
+   * Closes the breaker and forgets the recorded failures.
+   * ブレーカーを閉じ、記録された失敗を破棄します。
+   */
+  readonly reset: () => void;
+};
+
+/**
+ * Options for creating a `CircuitBreaker`.
+ * `CircuitBreaker` を作成する際のオプション。
+ */
+export type CircuitBreakerOptions = {
+  /**
+   * The number of consecutive failures that opens the breaker. Defaults to `5`.
+   * ブレーカーを開く連続失敗回数。デフォルトは `5`。
+   */
+  readonly failureThreshold?: number;
+
+  /**
+   * The time in milliseconds the breaker stays open before allowing trial calls. Defaults to `30000`.
+   * 試行呼び出しを許可するまでブレーカーが開いたままになるミリ秒単位の時間。デフォルトは `30000`。
+   */
+  readonly resetTimeout?: number;
+
+  /**
+   * The number of trial calls allowed at the same time while half-open. Defaults to `1`.
+   * 半開状態で同時に許可される試行呼び出しの数。デフォルトは `1`。
+   */
+  readonly halfOpenMaxCalls?: number;
+
+  /**
+   * The number of successful trial calls that closes the breaker. Defaults to `1`.
+   * ブレーカーを閉じる試行呼び出しの成功回数。デフォルトは `1`。
+   */
+  readonly successThreshold?: number;
+
+  /**
+   * Decides whether an error counts as a failure. Cancellations never count. Defaults to counting every error.
+   * エラーを失敗として数えるかどうかを判定します。キャンセルは数えません。デフォルトはすべてのエラーを数えます。
+   * @param error - The error of the call. / 呼び出しのエラー。
+   */
+  readonly isFailure?: (error: unknown) => boolean;
+
+  /**
+   * The clock used for the cool-down timer. Defaults to `Clock.system`.
+   * クールダウンのタイマーに使用するクロック。デフォルトは `Clock.system`。
+   */
+  readonly clock?: Clock;
+
+  /**
+   * Called when the state of the breaker changes.
+   * ブレーカーの状態が変化したときに呼び出されます。
+   * @param state - The new state. / 新しい状態。
+   * @param previous - The previous state. / 以前の状態。
+   */
+  readonly onStateChange?: (
+    state: CircuitState,
+    previous: CircuitState
+  ) => void;
+};
+
+/**
+ * An error indicating that a call was rejected because the `CircuitBreaker` is open.
+ * `CircuitBreaker` が開いているために呼び出しが拒否されたことを示すエラー。
+ */
+export class CircuitOpenError extends Error {
+  override readonly name = "CircuitOpenError";
+
+  /**
+   * @param message - The error message. / エラーメッセージ。
+   */
+  constructor(message = "Circuit breaker is open") {
+    super(message);
+  }
+}
+
+/**
+ * Creates a new `CircuitBreaker` in the closed state.
+ * 閉じた状態の新しい `CircuitBreaker` を作成します。
+ * @param options - The thresholds and timers of the breaker. / ブレーカーのしきい値とタイマー。
+ */
+const create = (options: CircuitBreakerOptions = {}): CircuitBreaker => {
+  const clock = options.clock ?? Clock.system;
+  const failureThreshold = options.failureThreshold ?? 5;
+  const resetTimeout = options.resetTimeout ?? 30000;
+  const halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+  const successThreshold = options.successThreshold ?? 1;
+  const isFailure = options.isFailure ?? (() => true);
+  const state = RBox.pack<CircuitState>("closed");
+  let failures = 0;
+  let trials = 0;
+  let successes = 0;
+  let timer: unknown = undefined;
+
+  const transition = (next: CircuitState) => {
+    const previous = state.getValue();
+    if (previous === next) return;
+    if (timer !== undefined) {
+      clock.clearTimeout(timer);
+      timer = undefined;
+    }
+    failures = 0;
+    trials = 0;
+    successes = 0;
+    if (next === "open") {
+      timer = clock.setTimeout(() => {
+        timer = undefined;
+        transition("half-open");
+      }, resetTimeout);
+    }
+    state.setValue(next);
+    options.onStateChange?.(next, previous);
+  };
+
+  const admit = (): boolean => {
+    switch (state.getValue()) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half-open":
+        if (trials >= halfOpenMaxCalls) return false;
+        trials++;
+        return true;
+    }
+  };
+
+  const settle = (
+    trial: boolean,
+    outcome: "success" | "failure" | "ignored"
+  ) => {
+    const current = state.getValue();
+    if (trial && current === "half-open") {
+      trials--;
+      if (outcome === "failure") {
+        transition("open");
+      } else if (outcome === "success" && ++successes >= successThreshold) {
+        transition("closed");
+      }
+    } else if (!trial && current === "closed") {
+      if (outcome === "success") {
+        failures = 0;
+      } else if (outcome === "failure" && ++failures >= failureThreshold) {
+        transition("open");
+      }
+    }
+  };
+
+  const protect = <T>(
+    task: Task<T>,
+    fallback?: (error: unknown) => Task<T>
+  ): Task<T> =>
+    Task.from((signal) => {
+      const trial = state.getValue() === "half-open";
+      const attempt = admit()
+        ? task.run(signal).then(
+            (value) => {
+              settle(trial, "success");
+              return value;
+            },
+            (error) => {
+              settle(
+                trial,
+                error instanceof CancellationError || !isFailure(error)
+                  ? "ignored"
+                  : "failure"
+              );
+              throw error;
+            }
+          )
+        : Promise.reject<T>(new CircuitOpenError());
+      return fallback
+        ? attempt.catch((error) => {
+            if (error instanceof CancellationError) throw error;
+            return fallback(error).run(signal);
+          })
+        : attempt;
+    });
+
+  const wrap =
+    <A extends unknown[], T>(
+      fn: (...args: A) => Task<T>,
+      fallback?: (error: unknown, ...args: A) => Task<T>
+    ) =>
+    (...args: A): Task<T> =>
+      protect(
+        Task.from((signal) => fn(...args).run(signal)),
+        fallback && ((error) => fallback(error, ...args))
+      );
+
+  return {
+    isCircuitBreaker: true,
+    state,
+    protect,
+    wrap,
+    reset: () => {
+      transition("closed");
+      failures = 0;
+    },
+  };
+};
+
+/**
+ * Checks if the given value is a `CircuitBreaker`.
+ * 指定された値が `CircuitBreaker` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isCircuitBreaker = (value: any): value is CircuitBreaker =>
+  value?.isCircuitBreaker === true;
+
+/**
+ * CircuitBreaker utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `CircuitBreaker` ユーティリティオブジェクト。
+ */
+export const CircuitBreaker = {
+  create,
+  isCircuitBreaker,
+} as const;
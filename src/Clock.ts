@@ -0,0 +1,146 @@
+/**
+ * A source of time and timers used by time-based `Task` operations.
+ * 時間に関する `Task` の操作が使用する、時刻とタイマーの提供元。
+ */
+export type Clock = {
+  /**
+   * Gets the current time in milliseconds.
+   * ミリ秒単位の現在時刻を取得します。
+   */
+  readonly now: () => number;
+
+  /**
+   * Schedules a callback to run after the given time.
+   * 指定時間の経過後にコールバックを実行するよう予約します。
+   * @param callback - The callback to run. / 実行するコールバック。
+   * @param ms - The delay in milliseconds. / ミリ秒単位の待機時間。
+   * @returns A handle to cancel the timer. / タイマーをキャンセルするためのハンドル。
+   */
+  readonly setTimeout: (callback: () => void, ms: number) => unknown;
+
+  /**
+   * Cancels a timer scheduled with `setTimeout`.
+   * `setTimeout` で予約されたタイマーをキャンセルします。
+   * @param handle - The handle returned by `setTimeout`. / `setTimeout` が返したハンドル。
+   */
+  readonly clearTimeout: (handle: unknown) => void;
+};
+
+/**
+ * A `Clock` whose time only moves when it is advanced explicitly.
+ * 明示的に進めた場合にのみ時間が進む `Clock`。
+ */
+export type TestClock = Clock & {
+  /**
+   * Moves the time forward, running every timer that becomes due in order.
+   * Pending promise callbacks are flushed after each timer so that timers scheduled by them are honored.
+   * 時間を進め、期限を迎えたタイマーを順番に実行します。
+   * 各タイマーの後に保留中の Promise のコールバックを処理するため、それらが予約したタイマーも考慮されます。
+   * @param ms - The time to advance in milliseconds. / ミリ秒単位の進める時間。
+   */
+  readonly advance: (ms: number) => Promise<void>;
+
+  /**
+   * Advances the time until no timer is pending.
+   * 保留中のタイマーがなくなるまで時間を進めます。
+   */
+  readonly runAll: () => Promise<void>;
+
+  /**
+   * Gets the number of pending timers.
+   * 保留中のタイマーの数を取得します。
+   */
+  readonly pending: () => number;
+};
+
+/**
+ * The real timer function, captured before any test replaces the global one.
+ * テストがグローバル関数を置き換える前に取得した、実際のタイマー関数。
+ */
+const realSetTimeout = globalThis.setTimeout;
+
+/**
+ * Resolves once every pending promise callback has run.
+ * 保留中のすべての Promise のコールバックが実行された後に解決します。
+ */
+const flush = (): Promise<void> =>
+  new Promise((resolve) => realSetTimeout(resolve, 0));
+
+/**
+ * A `Clock` backed by `Date.now` and the global timer functions.
+ * `Date.now` とグローバルなタイマー関数に基づく `Clock`。
+ */
+const system: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Creates a new `TestClock` starting at the given time.
+ * 指定された時刻から始まる新しい `TestClock` を作成します。
+ * @param start - The initial time in milliseconds. Defaults to `0`. / ミリ秒単位の初期時刻。デフォルトは `0`。
+ */
+const test = (start = 0): TestClock => {
+  type Timer = { id: number; at: number; callback: () => void };
+  let time = start;
+  let nextId = 0;
+  const timers = new Map<number, Timer>();
+
+  const now = () => time;
+  const setTimeout = (callback: () => void, ms: number) => {
+    const id = nextId++;
+    timers.set(id, { id, at: time + Math.max(0, ms), callback });
+    return id;
+  };
+  const clearTimeout = (handle: unknown) => {
+    timers.delete(handle as number);
+  };
+  const nextDue = (until: number): Timer | undefined =>
+    [...timers.values()]
+      .filter((timer) => timer.at <= until)
+      .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+
+  const runDue = (until: number): Promise<void> => {
+    const timer = nextDue(until);
+    if (!timer) {
+      time = until;
+      return Promise.resolve();
+    }
+    timers.delete(timer.id);
+    time = timer.at;
+    timer.callback();
+    return flush().then(() => runDue(until));
+  };
+  const advance = (ms: number) => {
+    const until = time + ms;
+    return flush().then(() => runDue(until));
+  };
+  const runAll = (): Promise<void> =>
+    flush().then(() =>
+      timers.size === 0
+        ? undefined
+        : advance(
+            Math.min(...[...timers.values()].map((timer) => timer.at)) - time
+          ).then(runAll)
+    );
+
+  return {
+    now,
+    setTimeout,
+    clearTimeout,
+    advance,
+    runAll,
+    pending: () => timers.size,
+  };
+};
+
+/**
+ * Clock utility object containing the system clock and a test clock constructor.
+ * システムクロックとテストクロックのコンストラクタを含む `Clock` ユーティリティオブジェクト。
+ */
+export const Clock = {
+  system,
+  test,
+} as const;
@@ -0,0 +1,351 @@
+import { Either } from "./Either";
+import { contextOf, linkController } from "./RunContext";
+import { Schedule } from "./Schedule";
+import { RetryPolicy, Task, TimeoutError } from "./Task";
+
+/**
+ * A successful HTTP response with its decoded body.
+ * デコードされたボディを持つ、成功した HTTP レスポンス。
+ */
+export type HttpResponse<A> = {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: Headers;
+  readonly url: string;
+  readonly body: A;
+};
+
+/**
+ * A failed HTTP request. The `type` tells what went wrong:
+ * `"network"` when no response arrived, `"timeout"` when the time limit was exceeded,
+ * `"status"` when the status was rejected, and `"decode"` when the body could not be decoded.
+ * 失敗した HTTP リクエスト。`type` は失敗の種類を表します。
+ * `"network"` はレスポンスが届かなかった場合、`"timeout"` は制限時間を超えた場合、
+ * `"status"` はステータスが拒否された場合、`"decode"` はボディをデコードできなかった場合です。
+ */
+export type HttpError = {
+  readonly isHttpError: true; // Identifies the object as an `HttpError`. / オブジェクトが `HttpError` であることを識別。
+  readonly method: string;
+  readonly url: string;
+} & HttpErrorDetails;
+
+/**
+ * The variants of `HttpError`, without the request they belong to.
+ * 属するリクエストの情報を除いた、`HttpError` の各種類。
+ */
+type HttpErrorDetails = { readonly message: string } & (
+  | { readonly type: "network"; readonly cause: unknown }
+  | { readonly type: "timeout"; readonly ms: number }
+  | {
+      readonly type: "status";
+      readonly status: number;
+      readonly statusText: string;
+      readonly headers: Headers;
+      readonly body: string;
+    }
+  | {
+      readonly type: "decode";
+      readonly status: number;
+      readonly headers: Headers;
+      readonly cause: unknown;
+    }
+);
+
+/**
+ * Decodes the body of a response. Throwing or rejecting fails the request with a `"decode"` error.
+ * レスポンスのボディをデコードします。例外をスローするか拒否すると、リクエストは `"decode"` エラーで失敗します。
+ */
+export type HttpDecoder<A> = (response: Response) => A | Promise<A>;
+
+/**
+ * Options for an HTTP request.
+ * HTTP リクエストのオプション。
+ */
+export type HttpRequestOptions<A> = {
+  /**
+   * The HTTP method. Defaults to `"GET"`.
+   * HTTP メソッド。デフォルトは `"GET"`。
+   */
+  readonly method?: string;
+
+  /**
+   * The request headers.
+   * リクエストヘッダー。
+   */
+  readonly headers?: Readonly<Record<string, string>>;
+
+  /**
+   * The request body. Strings and `BodyInit` values are sent as they are, and other values are sent as JSON.
+   * リクエストボディ。文字列と `BodyInit` の値はそのまま送信され、それ以外の値は JSON として送信されます。
+   */
+  readonly body?: unknown;
+
+  /**
+   * The time limit in milliseconds for the whole request including decoding, measured by the clock of the run.
+   * 実行のクロックで計測する、デコードを含むリクエスト全体のミリ秒単位の制限時間。
+   */
+  readonly timeout?: number;
+
+  /**
+   * Decodes the body of an accepted response. Defaults to `Http.json()`.
+   * 受け入れられたレスポンスのボディをデコードします。デフォルトは `Http.json()`。
+   */
+  readonly decode?: HttpDecoder<A>;
+
+  /**
+   * Decides whether a status is accepted. Defaults to accepting `2xx` statuses.
+   * ステータスを受け入れるかどうかを判定します。デフォルトは `2xx` のステータスを受け入れます。
+   * @param status - The status of the response. / レスポンスのステータス。
+   */
+  readonly validateStatus?: (status: number) => boolean;
+
+  /**
+   * Retries failures that `Http.isRetryable` accepts, following the given policy or schedule.
+   * Other failures are returned without retrying.
+   * `Http.isRetryable` が許可する失敗を、指定されたポリシーまたはスケジュールに従ってリトライします。
+   * それ以外の失敗はリトライされずに返されます。
+   */
+  readonly retry?: RetryPolicy | Schedule<HttpError>;
+
+  /**
+   * The `fetch` implementation to use. Defaults to the global `fetch`.
+   * 使用する `fetch` の実装。デフォルトはグローバルな `fetch`。
+   */
+  readonly fetch?: typeof fetch;
+};
+
+/**
+ * Creates a decoder that parses the body as JSON, optionally validating the parsed value.
+ * An empty body is decoded as `undefined`.
+ * ボディを JSON として解析し、任意で解析された値を検証するデコーダーを作成します。
+ * 空のボディは `undefined` としてデコードされます。
+ * @param validate - A function that checks the value and returns it typed, throwing if it is invalid. / 値を検証して型付きで返し、不正な場合は例外をスローする関数。
+ */
+const json =
+  <A = unknown>(validate?: (value: unknown) => A): HttpDecoder<A> =>
+  (response) =>
+    response.text().then((text) => {
+      const value: unknown = text === "" ? undefined : JSON.parse(text);
+      return validate ? validate(value) : (value as A);
+    });
+
+/**
+ * A decoder that reads the body as text.
+ * ボディをテキストとして読み取るデコーダー。
+ */
+const text: HttpDecoder<string> = (response) => response.text();
+
+/**
+ * Checks if the given value is an `HttpError`.
+ * 指定された値が `HttpError` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isHttpError = (value: any): value is HttpError =>
+  value?.isHttpError === true;
+
+/**
+ * Checks if a failed request is worth retrying: network errors, timeouts, and the statuses `408`, `429` and `5xx`.
+ * 失敗したリクエストがリトライに値するかどうかを判定します。対象はネットワークエラー、タイムアウト、およびステータス `408`、`429`、`5xx` です。
+ * @param error - The error of the request. / リクエストのエラー。
+ */
+const isRetryable = (error: HttpError): boolean =>
+  error.type === "network" ||
+  error.type === "timeout" ||
+  (error.type === "status" &&
+    (error.status === 408 || error.status === 429 || error.status >= 500));
+
+/**
+ * Checks if a request body should be sent as JSON.
+ * リクエストボディを JSON として送信すべきかどうかを判定します。
+ * @param body - The request body. / リクエストボディ。
+ */
+const isJsonBody = (body: unknown): boolean => {
+  if (typeof body !== "object" || body === null) {
+    return typeof body !== "string";
+  }
+  const prototype = Object.getPrototypeOf(body);
+  return (
+    Array.isArray(body) || prototype === Object.prototype || prototype === null
+  );
+};
+
+/**
+ * Creates a `Task` that sends an HTTP request and resolves with the response or the reason it failed.
+ * The request is sent on every run and aborted when the run is cancelled; cancellation rejects the `Task` instead of producing an `HttpError`.
+ * HTTP リクエストを送信し、レスポンスまたは失敗の理由で解決する `Task` を作成します。
+ * リクエストは実行のたびに送信され、実行がキャンセルされると中断されます。キャンセルは `HttpError` にはならず、`Task` を拒否します。
+ * @param url - The URL to request. / リクエストする URL。
+ * @param options - The options of the request. / リクエストのオプション。
+ */
+const request = <A = unknown>(
+  url: string,
+  options: HttpRequestOptions<A> = {}
+): Task<Either<HttpError, HttpResponse<A>>> => {
+  const method = (options.method ?? "GET").toUpperCase();
+  const decode = options.decode ?? (json() as HttpDecoder<A>);
+  const validateStatus =
+    options.validateStatus ?? ((status) => status >= 200 && status < 300);
+  const sendJson = options.body !== undefined && isJsonBody(options.body);
+  const init: RequestInit = {
+    method,
+    headers: {
+      ...(sendJson && { "content-type": "application/json" }),
+      ...options.headers,
+    },
+    body:
+      options.body === undefined
+        ? undefined
+        : sendJson
+        ? JSON.stringify(options.body)
+        : (options.body as BodyInit),
+  };
+  const failure = (
+    details: HttpErrorDetails
+  ): Either<HttpError, HttpResponse<A>> =>
+    Either.left({ isHttpError: true, method, url, ...details });
+
+  const attempt = Task.from((signal) => {
+    const { clock } = contextOf(signal);
+    const { controller, unlink } = linkController(signal);
+    const ms = options.timeout;
+    const timer =
+      ms === undefined
+        ? undefined
+        : clock.setTimeout(() => controller.abort(new TimeoutError(ms)), ms);
+    const aborted = (error: unknown) => {
+      if (signal.aborted) throw error;
+      return controller.signal.aborted && ms !== undefined
+        ? failure({
+            type: "timeout",
+            ms,
+            message: `${method} ${url} timed out after ${ms}ms`,
+          })
+        : undefined;
+    };
+
+    return (options.fetch ?? fetch)(url, {
+      ...init,
+      signal: controller.signal,
+    })
+      .then((response) =>
+        validateStatus(response.status)
+          ? Promise.resolve()
+              .then(() => decode(response))
+              .then(
+                (body) =>
+                  Either.right<HttpError, HttpResponse<A>>({
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: response.headers,
+                    url: response.url || url,
+                    body,
+                  }),
+                (cause) =>
+                  aborted(cause) ??
+                  failure({
+                    type: "decode",
+                    status: response.status,
+                    headers: response.headers,
+                    cause,
+                    message: `${method} ${url} returned a body that could not be decoded: ${cause}`,
+                  })
+              )
+          : response.text().then((body) =>
+              failure({
+                type: "status",
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+                body,
+                message: `${method} ${url} failed with status ${response.status}`,
+              })
+            )
+      )
+      .catch(
+        (cause) =>
+          aborted(cause) ??
+          failure({
+            type: "network",
+            cause,
+            message: `${method} ${url} failed: ${cause}`,
+          })
+      )
+      .finally(() => {
+        if (timer !== undefined) clock.clearTimeout(timer);
+        unlink();
+      });
+  });
+
+  return options.retry === undefined
+    ? attempt
+    : retrying(attempt, options.retry);
+};
+
+/**
+ * Re-runs a request while it fails with a retryable error, following the given policy or schedule.
+ * リトライ可能なエラーで失敗する間、指定されたポリシーまたはスケジュールに従ってリクエストを再実行します。
+ * @param attempt - The request. / リクエスト。
+ * @param policy - The retry policy or schedule. / リトライポリシーまたはスケジュール。
+ */
+const retrying = <A>(
+  attempt: Task<Either<HttpError, A>>,
+  policy: RetryPolicy | Schedule<HttpError>
+): Task<Either<HttpError, A>> =>
+  Task.tryCatch(
+    (signal) =>
+      attempt
+        .flatMap((result) =>
+          Either.isLeft(result) && isRetryable(result.getValue())
+            ? Task.tryTask<Either<HttpError, A>>(() =>
+                Promise.reject(result.getValue())
+              )
+            : Task.pack(result)
+        )
+        // Only `HttpError`s reach the schedule, since cancellation is never retried.
+        .retry(policy as RetryPolicy | Schedule<unknown>)
+        .run(signal),
+    (error) => {
+      if (isHttpError(error)) return Either.left<HttpError, A>(error);
+      throw error;
+    }
+  );
+
+/**
+ * Creates a `Task` that sends a `GET` request.
+ * `GET` リクエストを送信する `Task` を作成します。
+ * @param url - The URL to request. / リクエストする URL。
+ * @param options - The options of the request. / リクエストのオプション。
+ */
+const get = <A = unknown>(
+  url: string,
+  options: Omit<HttpRequestOptions<A>, "method" | "body"> = {}
+): Task<Either<HttpError, HttpResponse<A>>> =>
+  request(url, { ...options, method: "GET" });
+
+/**
+ * Creates a `Task` that sends a `POST` request with the given body.
+ * 指定されたボディで `POST` リクエストを送信する `Task` を作成します。
+ * @param url - The URL to request. / リクエストする URL。
+ * @param body - The request body. / リクエストボディ。
+ * @param options - The options of the request. / リクエストのオプション。
+ */
+const post = <A = unknown>(
+  url: string,
+  body: unknown,
+  options: Omit<HttpRequestOptions<A>, "method" | "body"> = {}
+): Task<Either<HttpError, HttpResponse<A>>> =>
+  request(url, { ...options, method: "POST", body });
+
+/**
+ * Http utility object containing request functions, decoders and helper functions.
+ * リクエスト関数、デコーダー、ヘルパー関数を含む `Http` ユーティリティオブジェクト。
+ */
+export const Http = {
+  request,
+  get,
+  post,
+  json,
+  text,
+  isHttpError,
+  isRetryable,
+} as const;
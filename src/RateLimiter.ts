@@ -0,0 +1,166 @@
+import { Clock } from "./Clock";
+import { toCancellationError } from "./RunContext";
+import { Task } from "./Task";
+
+/**
+ * Limits how often `Task`s guarded by it may start, using a token bucket.
+ * Waiting tasks start in the order they arrived, and a cancelled waiter leaves the queue.
+ * トークンバケットを使い、保護された `Task` の開始頻度を制限します。
+ * 待機中のタスクは到着順に開始され、キャンセルされた待機者はキューから外れます。
+ */
+export type RateLimiter = {
+  readonly isRateLimiter: true; // Identifies the object as a `RateLimiter`. / オブジェクトが `RateLimiter` であることを識別。
+
+  /**
+   * Returns a `Task` that waits for a token and then runs the given `Task`.
+   * トークンを待ってから指定された `Task` を実行する `Task` を返します。
+   * @param task - The `Task` to guard. / 保護する `Task`。
+   */
+  readonly withPermit: <T>(task: Task<T>) => Task<T>;
+
+  /**
+   * Gets the number of whole tokens that are currently available.
+   * 現在利用可能なトークンの数（整数）を取得します。
+   */
+  readonly available: () => number;
+
+  /**
+   * Gets the number of runs waiting for a token.
+   * トークンを待っている実行の数を取得します。
+   */
+  readonly pending: () => number;
+};
+
+/**
+ * Options for creating a `RateLimiter`.
+ * `RateLimiter` を作成する際のオプション。
+ */
+export type RateLimiterOptions = {
+  /**
+   * The number of tokens added per interval.
+   * 1 インターバルあたりに追加されるトークンの数。
+   */
+  readonly tokens: number;
+
+  /**
+   * The length of the interval in milliseconds. Defaults to `1000`.
+   * ミリ秒単位のインターバルの長さ。デフォルトは `1000`。
+   */
+  readonly interval?: number;
+
+  /**
+   * The maximum number of stored tokens, which bounds bursts. Defaults to `tokens`.
+   * 保持できるトークンの最大数で、バーストの上限になります。デフォルトは `tokens`。
+   */
+  readonly capacity?: number;
+
+  /**
+   * The clock used to refill tokens. Defaults to `Clock.system`.
+   * トークンの補充に使用するクロック。デフォルトは `Clock.system`。
+   */
+  readonly clock?: Clock;
+};
+
+/**
+ * Creates a new `RateLimiter` that starts with a full bucket.
+ * Throws a `RangeError` unless `tokens` and `interval` are positive and `capacity` is at least `1`, since no waiter could start otherwise.
+ * バケットが満たされた状態で始まる新しい `RateLimiter` を作成します。
+ * `tokens` と `interval` が正で、`capacity` が `1` 以上でない場合は、待機者が開始できなくなるため `RangeError` をスローします。
+ * @param options - The rate and capacity of the limiter. / リミッターのレートと容量。
+ */
+const create = (options: RateLimiterOptions): RateLimiter => {
+  type Waiter = { grant: () => void };
+  const clock = options.clock ?? Clock.system;
+  const capacity = options.capacity ?? options.tokens;
+  const interval = options.interval ?? 1000;
+  if (!(options.tokens > 0)) {
+    throw new RangeError(
+      `tokens must be positive, but received ${options.tokens}`
+    );
+  }
+  if (!(interval > 0)) {
+    throw new RangeError(`interval must be positive, but received ${interval}`);
+  }
+  if (!(capacity >= 1)) {
+    throw new RangeError(
+      `capacity must be at least 1, but received ${capacity}`
+    );
+  }
+  const rate = options.tokens / interval;
+  let tokens = capacity;
+  let refilledAt = clock.now();
+  let timer: unknown = undefined;
+  const waiters: Waiter[] = [];
+
+  const refill = () => {
+    const now = clock.now();
+    tokens = Math.min(capacity, tokens + (now - refilledAt) * rate);
+    refilledAt = now;
+  };
+  const admit = () => {
+    refill();
+    while (waiters.length > 0 && tokens >= 1) {
+      tokens -= 1;
+      (waiters.shift() as Waiter).grant();
+    }
+    if (timer !== undefined) {
+      clock.clearTimeout(timer);
+      timer = undefined;
+    }
+    if (waiters.length > 0) {
+      timer = clock.setTimeout(() => {
+        timer = undefined;
+        admit();
+      }, Math.ceil((1 - tokens) / rate));
+    }
+  };
+  const acquire = (signal: AbortSignal): Promise<void> =>
+    new Promise<void>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(toCancellationError(signal));
+        return;
+      }
+      const onAbort = () => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        reject(toCancellationError(signal));
+        admit();
+      };
+      const waiter: Waiter = {
+        grant: () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      waiters.push(waiter);
+      signal.addEventListener("abort", onAbort, { once: true });
+      admit();
+    });
+
+  return {
+    isRateLimiter: true,
+    withPermit: <T>(task: Task<T>) =>
+      Task.from((signal) => acquire(signal).then(() => task.run(signal))),
+    available: () => {
+      refill();
+      return Math.floor(tokens);
+    },
+    pending: () => waiters.length,
+  };
+};
+
+/**
+ * Checks if the given value is a `RateLimiter`.
+ * 指定された値が `RateLimiter` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isRateLimiter = (value: any): value is RateLimiter =>
+  value?.isRateLimiter === true;
+
+/**
+ * RateLimiter utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `RateLimiter` ユーティリティオブジェクト。
+ */
+export const RateLimiter = {
+  create,
+  isRateLimiter,
+} as const;
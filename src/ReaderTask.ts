@@ -0,0 +1,242 @@
+import { Task } from "./Task";
+
+/**
+ * Represents an asynchronous computation that needs an environment of type `R` to produce a value of type `A`.
+ * Dependencies are declared in `R` and supplied once with `provide`.
+ * 型 `A` の値を生成するために型 `R` の環境を必要とする非同期の計算を表します。
+ * 依存関係は `R` で宣言され、`provide` で一度だけ渡されます。
+ */
+export type ReaderTask<R, A> = {
+  readonly isReaderTask: true; // Identifies the object as a `ReaderTask`. / オブジェクトが `ReaderTask` であることを識別。
+
+  /**
+   * Transforms the value using the provided function and returns a new `ReaderTask`.
+   * 値を指定された関数で変換し、新しい `ReaderTask` を返します。
+   * @param fn - A function to transform the value. / 値を変換する関数。
+   */
+  readonly map: <B>(fn: (value: A) => B) => ReaderTask<R, B>;
+
+  /**
+   * Transforms the value using the provided function and returns a new `ReaderTask`.
+   * Alias for `map`.
+   * 値を指定された関数で変換し、新しい `ReaderTask` を返します。
+   * `map` のエイリアス。
+   * @param fn - A function to transform the value. / 値を変換する関数。
+   */
+  readonly "<$>": <B>(fn: (value: A) => B) => ReaderTask<R, B>;
+
+  /**
+   * Applies a `ReaderTask` that contains a function to a `ReaderTask` that contains a value, combining the environments.
+   * 関数を含む `ReaderTask` を値を含む別の `ReaderTask` に適用し、環境を合成します。
+   * @param readerValue - A `ReaderTask` containing the value. / 値を含む `ReaderTask`。
+   */
+  readonly apply: <R2, U, V>(
+    this: ReaderTask<R, (value: U) => V>,
+    readerValue: ReaderTask<R2, U>
+  ) => ReaderTask<R & R2, V>;
+
+  /**
+   * Applies a `ReaderTask` that contains a function to a `ReaderTask` that contains a value, combining the environments.
+   * Alias for `apply`.
+   * 関数を含む `ReaderTask` を値を含む別の `ReaderTask` に適用し、環境を合成します。
+   * `apply` のエイリアス。
+   * @param readerValue - A `ReaderTask` containing the value. / 値を含む `ReaderTask`。
+   */
+  readonly "<*>": <R2, U, V>(
+    this: ReaderTask<R, (value: U) => V>,
+    readerValue: ReaderTask<R2, U>
+  ) => ReaderTask<R & R2, V>;
+
+  /**
+   * Chains another `ReaderTask` based on the value, combining the environments.
+   * 値をもとに別の `ReaderTask` を連結し、環境を合成します。
+   * @param fn - A function that returns a `ReaderTask`. / `ReaderTask` を返す関数。
+   */
+  readonly flatMap: <R2, B>(
+    fn: (value: A) => ReaderTask<R2, B>
+  ) => ReaderTask<R & R2, B>;
+
+  /**
+   * Chains another `ReaderTask` based on the value, combining the environments.
+   * Alias for `flatMap`.
+   * 値をもとに別の `ReaderTask` を連結し、環境を合成します。
+   * `flatMap` のエイリアス。
+   * @param fn - A function that returns a `ReaderTask`. / `ReaderTask` を返す関数。
+   */
+  readonly ">>=": <R2, B>(
+    fn: (value: A) => ReaderTask<R2, B>
+  ) => ReaderTask<R & R2, B>;
+
+  /**
+   * Runs the computation with an environment derived from a different one.
+   * 別の環境から導出した環境で計算を実行します。
+   * @param fn - A function that derives the environment. / 環境を導出する関数。
+   */
+  readonly local: <R2>(fn: (env: R2) => R) => ReaderTask<R2, A>;
+
+  /**
+   * Supplies the whole environment and returns a plain `Task`.
+   * 環境全体を渡し、通常の `Task` を返します。
+   * @param env - The environment. / 環境。
+   */
+  readonly provide: (env: R) => Task<A>;
+
+  /**
+   * Supplies part of the environment and returns a `ReaderTask` that needs only the rest.
+   * 環境の一部を渡し、残りのみを必要とする `ReaderTask` を返します。
+   * @param env - The part of the environment to supply. / 渡す環境の一部。
+   */
+  readonly provideSome: <K extends keyof R>(
+    env: Pick<R, K>
+  ) => ReaderTask<Omit<R, K>, A>;
+};
+
+/**
+ * Extracts the environment type of a `ReaderTask`.
+ * `ReaderTask` の環境の型を取り出します。
+ */
+export type ReaderTaskEnv<T> = T extends ReaderTask<infer R, any> ? R : never;
+
+/**
+ * Converts a union type into an intersection type.
+ * 合併型を交差型に変換します。
+ */
+type UnionToIntersection<U> = (
+  U extends unknown ? (value: U) => void : never
+) extends (value: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Creates a new `ReaderTask` from a function that builds a `Task` from the environment.
+ * 環境から `Task` を作成する関数から新しい `ReaderTask` を作成します。
+ * @param run - A function that builds a `Task` from the environment. / 環境から `Task` を作成する関数。
+ */
+const readerTask = <R, A>(run: (env: R) => Task<A>): ReaderTask<R, A> => {
+  const map = <B>(fn: (value: A) => B): ReaderTask<R, B> =>
+    readerTask((env) => run(env).map(fn));
+  const flatMap = <R2, B>(
+    fn: (value: A) => ReaderTask<R2, B>
+  ): ReaderTask<R & R2, B> =>
+    readerTask((env) => run(env).flatMap((value) => fn(value).provide(env)));
+  const apply = function <R2, U, V>(
+    this: ReaderTask<R, (value: U) => V>,
+    readerValue: ReaderTask<R2, U>
+  ): ReaderTask<R & R2, V> {
+    return this.flatMap((fn) => {
+      if (typeof fn !== "function") {
+        throw new TypeError("fn is not a function");
+      }
+      return readerValue.map((value) => fn(value));
+    });
+  };
+  const local = <R2>(fn: (env: R2) => R): ReaderTask<R2, A> =>
+    readerTask((env) => run(fn(env)));
+  const provide = (env: R): Task<A> =>
+    Task.from((signal) => run(env).run(signal));
+  const provideSome = <K extends keyof R>(
+    env: Pick<R, K>
+  ): ReaderTask<Omit<R, K>, A> =>
+    readerTask((rest) => run({ ...rest, ...env } as R));
+
+  return {
+    isReaderTask: true,
+    map,
+    apply,
+    flatMap,
+    local,
+    provide,
+    provideSome,
+    "<$>": map,
+    "<*>": apply,
+    ">>=": flatMap,
+  } as const;
+};
+
+/**
+ * Creates a `ReaderTask` that ignores the environment and produces the given value.
+ * 環境を無視して指定された値を生成する `ReaderTask` を作成します。
+ * @param value - The value to produce. / 生成する値。
+ */
+const pack = <A>(value: A): ReaderTask<unknown, A> =>
+  readerTask(() => Task.pack(value));
+
+/**
+ * Creates a `ReaderTask` that produces the environment itself.
+ * 環境そのものを生成する `ReaderTask` を作成します。
+ */
+const ask = <R>(): ReaderTask<R, R> => readerTask((env: R) => Task.pack(env));
+
+/**
+ * Creates a `ReaderTask` that produces a value selected from the environment.
+ * 環境から選択した値を生成する `ReaderTask` を作成します。
+ * @param fn - A function that selects the value. / 値を選択する関数。
+ */
+const asks = <R, A>(fn: (env: R) => A): ReaderTask<R, A> =>
+  readerTask((env: R) => Task.pack(fn(env)));
+
+/**
+ * Lifts a `Task` into a `ReaderTask` that does not need an environment.
+ * `Task` を環境を必要としない `ReaderTask` に持ち上げます。
+ * @param task - The `Task` to lift. / 持ち上げる `Task`。
+ */
+const fromTask = <A>(task: Task<A>): ReaderTask<unknown, A> =>
+  readerTask(() => task);
+
+/**
+ * Checks if the given value is a `ReaderTask`.
+ * 指定された値が `ReaderTask` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isReaderTask = <R, A>(value: any): value is ReaderTask<R, A> =>
+  value?.isReaderTask === true;
+
+/**
+ * Enables a "do notation" for ReaderTask, allowing for sequential composition of ReaderTask operations.
+ * Plain `Task` values can be yielded as well, and the environment of the result is the intersection
+ * of the environments of every yielded `ReaderTask`.
+ * ReaderTask に対して「do 記法」を提供し、ReaderTask の操作を逐次的に記述できるようにします。
+ * 通常の `Task` も `yield` でき、結果の環境は `yield` されたすべての `ReaderTask` の環境の交差型になります。
+ *
+ * @param generatorFunc - A generator function yielding ReaderTask or Task values.
+ *                        ReaderTask または Task の値を `yield` するジェネレータ関数。
+ * @returns A ReaderTask containing the final computed value.
+ *          計算結果を含む ReaderTask を返します。
+ */
+function Do<T extends ReaderTask<any, any> | Task<any>, U>(
+  generatorFunc: () => Generator<T, U | ReaderTask<any, U>, any>
+): ReaderTask<UnionToIntersection<ReaderTaskEnv<T>>, U> {
+  type R = UnionToIntersection<ReaderTaskEnv<T>>;
+  return readerTask((env: R) =>
+    Task.from((signal) => {
+      const iterator = generatorFunc();
+      const step = (value?: unknown): Task<U> => {
+        const { value: result, done } = iterator.next(value);
+        if (done) {
+          return isReaderTask<R, U>(result)
+            ? result.provide(env)
+            : Task.pack(result as U);
+        }
+        const next: Task<unknown> = isReaderTask<R, unknown>(result)
+          ? result.provide(env)
+          : (result as Task<unknown>);
+        return next[">>="](step);
+      };
+      return step(undefined).run(signal);
+    })
+  );
+}
+
+/**
+ * ReaderTask utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `ReaderTask` ユーティリティオブジェクト。
+ */
+export const ReaderTask = {
+  do: Do,
+  from: readerTask,
+  pack,
+  ask,
+  asks,
+  fromTask,
+  isReaderTask,
+} as const;
@@ -0,0 +1,130 @@
+import { Task } from "./Task";
+
+/**
+ * Represents a resource that is acquired before use and released afterwards.
+ * 使用前に取得され、使用後に解放されるリソースを表します。
+ */
+export type Resource<R> = {
+  readonly isResource: true; // Identifies the object as a `Resource`. / オブジェクトが `Resource` であることを識別。
+
+  /**
+   * Transforms the acquired resource using the provided function and returns a new `Resource`.
+   * 取得したリソースを指定された関数で変換し、新しい `Resource` を返します。
+   * @param fn - A function to transform the resource. / リソースを変換する関数。
+   */
+  readonly map: <U>(fn: (resource: R) => U) => Resource<U>;
+
+  /**
+   * Transforms the acquired resource using the provided function and returns a new `Resource`.
+   * Alias for `map`.
+   * 取得したリソースを指定された関数で変換し、新しい `Resource` を返します。
+   * `map` のエイリアス。
+   * @param fn - A function to transform the resource. / リソースを変換する関数。
+   */
+  readonly "<$>": <U>(fn: (resource: R) => U) => Resource<U>;
+
+  /**
+   * Acquires another `Resource` that depends on this one. The resources are released in reverse order.
+   * このリソースに依存する別の `Resource` を取得します。リソースは逆順に解放されます。
+   * @param fn - A function that returns a `Resource`. / `Resource` を返す関数。
+   */
+  readonly flatMap: <U>(fn: (resource: R) => Resource<U>) => Resource<U>;
+
+  /**
+   * Acquires another `Resource` that depends on this one. The resources are released in reverse order.
+   * Alias for `flatMap`.
+   * このリソースに依存する別の `Resource` を取得します。リソースは逆順に解放されます。
+   * `flatMap` のエイリアス。
+   * @param fn - A function that returns a `Resource`. / `Resource` を返す関数。
+   */
+  readonly ">>=": <U>(fn: (resource: R) => Resource<U>) => Resource<U>;
+
+  /**
+   * Returns a `Task` that acquires the resource, passes it to the given function and releases it afterwards.
+   * リソースを取得して指定された関数に渡し、その後解放する `Task` を返します。
+   * @param fn - A function that uses the resource. / リソースを使用する関数。
+   */
+  readonly use: <U>(fn: (resource: R) => Task<U>) => Task<U>;
+};
+
+/**
+ * Extracts the type of the value provided by a `Resource`.
+ * `Resource` が提供する値の型を取り出します。
+ */
+export type ResourceValue<T> = T extends Resource<infer R> ? R : never;
+
+/**
+ * Creates a new `Resource` from a function that runs a `Task` within the scope of the resource.
+ * リソースのスコープ内で `Task` を実行する関数から新しい `Resource` を作成します。
+ * @param use - A function that runs a `Task` with the acquired resource. / 取得したリソースで `Task` を実行する関数。
+ */
+const resource = <R>(
+  use: <U>(fn: (resource: R) => Task<U>) => Task<U>
+): Resource<R> => {
+  const map = <U>(fn: (resource: R) => U): Resource<U> =>
+    resource((next) => use((value) => next(fn(value))));
+  const flatMap = <U>(fn: (resource: R) => Resource<U>): Resource<U> =>
+    resource((next) => use((value) => fn(value).use(next)));
+
+  return {
+    isResource: true,
+    map,
+    flatMap,
+    use,
+    "<$>": map,
+    ">>=": flatMap,
+  } as const;
+};
+
+/**
+ * Creates a `Resource` from an acquiring `Task` and a release function.
+ * The release runs exactly once whether the use succeeds, fails or is cancelled.
+ * 取得する `Task` と解放関数から `Resource` を作成します。
+ * 解放は、使用が成功・失敗・キャンセルのいずれで終わっても正確に 1 回実行されます。
+ * @param acquire - A `Task` that acquires the resource. / リソースを取得する `Task`。
+ * @param release - A function that releases the resource. / リソースを解放する関数。
+ */
+const acquireRelease = <R>(
+  acquire: Task<R>,
+  release: (resource: R) => Task<void>
+): Resource<R> => resource((fn) => Task.bracket(acquire, fn, release));
+
+/**
+ * Lifts a value into a `Resource` that needs no release.
+ * 解放を必要としない `Resource` に値を持ち上げます。
+ * @param value - The value to lift. / 持ち上げる値。
+ */
+const pack = <R>(value: R): Resource<R> => resource((fn) => fn(value));
+
+/**
+ * Combines several resources into one, acquiring them in order and releasing them in reverse order.
+ * 複数のリソースを 1 つにまとめ、順番に取得して逆順に解放します。
+ * @param resources - The resources to combine. / まとめるリソース。
+ */
+const all = <T extends readonly Resource<unknown>[]>(
+  resources: readonly [...T]
+): Resource<{ -readonly [K in keyof T]: ResourceValue<T[K]> }> =>
+  resources.reduce<Resource<unknown[]>>(
+    (acc, next) =>
+      acc.flatMap((values) => next.map((value) => [...values, value])),
+    pack([])
+  ) as Resource<{ -readonly [K in keyof T]: ResourceValue<T[K]> }>;
+
+/**
+ * Checks if the given value is a `Resource`.
+ * 指定された値が `Resource` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isResource = <R>(value: any): value is Resource<R> =>
+  value?.isResource === true;
+
+/**
+ * Resource utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `Resource` ユーティリティオブジェクト。
+ */
+export const Resource = {
+  acquireRelease,
+  pack,
+  all,
+  isResource,
+} as const;
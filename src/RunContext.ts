@@ -0,0 +1,201 @@
+/*
+ * Internal helpers shared by the asynchronous types to link signals and propagate run contexts.
+ * These are not part of the public API.
+ * シグナルの連動と実行コンテキストの伝播のために、非同期の型が共有する内部ヘルパー。
+ * 公開 API には含まれません。
+ */
+import { Clock } from "./Clock";
+import { CancellationError, type TraceSpan, type Tracer } from "./Task";
+
+/**
+ * The ambient values shared by every step of a run, attached to the signal of the run.
+ * `locals` is owned by the run: it is created when the run starts and copied for forked work.
+ * 実行のシグナルに関連付けられ、実行のすべてのステップで共有される値。
+ * `locals` は実行が所有し、実行の開始時に作成され、フォークされた処理にはコピーが渡されます。
+ */
+export type RunContext = {
+  readonly clock: Clock;
+  readonly tracer?: Tracer;
+  readonly span?: TraceSpan;
+  readonly locals?: Map<symbol, unknown>;
+  readonly progress?: (progress: number) => void;
+};
+
+/**
+ * The run contexts keyed by the signals they are attached to.
+ * 関連付けられたシグナルをキーとする実行コンテキスト。
+ */
+const contexts = new WeakMap<AbortSignal, RunContext>();
+
+/**
+ * The context of runs that were started without one.
+ * コンテキストなしで開始された実行のコンテキスト。
+ */
+const defaultContext: RunContext = { clock: Clock.system };
+
+/**
+ * Gets the run context attached to the given signal.
+ * 指定されたシグナルに関連付けられた実行コンテキストを取得します。
+ * @param signal - The signal of the run. / 実行のシグナル。
+ */
+export const contextOf = (signal: AbortSignal): RunContext =>
+  contexts.get(signal) ?? defaultContext;
+
+/**
+ * Attaches a run context to the given signal.
+ * 指定されたシグナルに実行コンテキストを関連付けます。
+ * @param signal - The signal of the run. / 実行のシグナル。
+ * @param context - The context to attach. / 関連付けるコンテキスト。
+ */
+export const setContext = (signal: AbortSignal, context: RunContext): void => {
+  contexts.set(signal, context);
+};
+
+/**
+ * The functions that keep linked signals attached to their parents, keyed by the linked signals.
+ * 連動したシグナルを親に接続したままにする関数。連動したシグナルをキーとします。
+ */
+const holds = new WeakMap<AbortSignal, () => () => void>();
+
+/**
+ * Keeps the given signal linked to its parent, and that parent to its own, until the returned function is called,
+ * so that work outliving its run, such as a fiber, is still cancelled together with the caller.
+ * 返された関数が呼び出されるまで、指定されたシグナルを親に、その親をさらにその親に連動させたままにします。
+ * これにより、ファイバーのように実行より長く続く処理も、呼び出し元とともにキャンセルされます。
+ * @param signal - The signal to keep linked. / 連動させたままにするシグナル。
+ * @returns A function that releases the hold. / 保持を解除する関数。
+ */
+export const retain = (signal: AbortSignal): (() => void) =>
+  holds.get(signal)?.() ?? (() => {});
+
+/**
+ * Derives the context of forked work, which starts with a copy of the locals of its parent.
+ * 親のローカル値のコピーから始まる、フォークされた処理のコンテキストを導出します。
+ * @param context - The context of the parent. / 親のコンテキスト。
+ */
+const forkedContext = (context: RunContext): RunContext => ({
+  ...context,
+  locals: new Map(context.locals),
+});
+
+/**
+ * Creates a signal that is never aborted by the given parent but shares its run context, with a copy of its locals.
+ * 親シグナルによって中断されることはないが、その実行コンテキストをローカル値のコピーとともに共有するシグナルを作成します。
+ * @param parent - The parent signal. / 親シグナル。
+ */
+export const detachedSignal = (parent: AbortSignal): AbortSignal => {
+  const { signal } = new AbortController();
+  contexts.set(signal, forkedContext(contextOf(parent)));
+  return signal;
+};
+
+/**
+ * Creates an `AbortController` that is aborted together with the given parent signal and shares its run context.
+ * Detaching is deferred while the signal is held by `retain`.
+ * 親シグナルと連動して中断され、その実行コンテキストを共有する `AbortController` を作成します。
+ * シグナルが `retain` によって保持されている間は、切り離しが延期されます。
+ * @param parent - The parent signal. / 親シグナル。
+ * @returns The linked controller and a function to detach it from the parent.
+ *          連動したコントローラーと、親から切り離す関数。
+ */
+export const linkController = (
+  parent: AbortSignal
+): { controller: AbortController; unlink: () => void } => {
+  const controller = new AbortController();
+  contexts.set(controller.signal, contextOf(parent));
+  const onAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent.addEventListener("abort", onAbort, { once: true });
+  }
+  let count = 1;
+  const release = () => {
+    count -= 1;
+    if (count === 0) parent.removeEventListener("abort", onAbort);
+  };
+  const once = (fn: () => void) => {
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      fn();
+    };
+  };
+  holds.set(controller.signal, () => {
+    count += 1;
+    const releaseParent = retain(parent);
+    return once(() => {
+      release();
+      releaseParent();
+    });
+  });
+  return { controller, unlink: once(release) };
+};
+
+/**
+ * Creates an `AbortController` like `linkController` whose run context starts with a copy of the parent's locals,
+ * for work that runs alongside its parent, such as forks and concurrent siblings.
+ * `linkController` と同様に `AbortController` を作成しますが、その実行コンテキストは親のローカル値のコピーから始まります。
+ * フォークや並行する兄弟など、親と並行して動く処理のためのものです。
+ * @param parent - The parent signal. / 親シグナル。
+ */
+export const forkController = (
+  parent: AbortSignal
+): { controller: AbortController; unlink: () => void } => {
+  const link = linkController(parent);
+  contexts.set(link.controller.signal, forkedContext(contextOf(parent)));
+  return link;
+};
+
+/**
+ * Runs a computation as a run of its own when the given signal belongs to the caller rather than to a run,
+ * so that the values of the run are never stored on a signal the caller owns.
+ * 指定されたシグナルが実行ではなく呼び出し元のものである場合、計算を独立した実行として実行します。
+ * これにより、実行の値が呼び出し元の所有するシグナルに保存されることはありません。
+ * @param signal - The signal passed to `run`. / `run` に渡されたシグナル。
+ * @param run - The computation to run. / 実行する計算。
+ */
+export const startRun = <T>(
+  signal: AbortSignal,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> =>
+  contexts.has(signal)
+    ? run(signal)
+    : runWithContext(signal, (context) => forkedContext(context), run);
+
+/**
+ * Runs a computation with a signal linked to the given one but carrying a modified run context.
+ * 指定されたシグナルに連動し、変更された実行コンテキストを持つシグナルで計算を実行します。
+ * @param signal - The parent signal. / 親シグナル。
+ * @param modify - A function that derives the new context. / 新しいコンテキストを導出する関数。
+ * @param run - The computation to run. / 実行する計算。
+ */
+export const runWithContext = <T>(
+  signal: AbortSignal,
+  modify: (context: RunContext) => RunContext,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const { controller, unlink } = linkController(signal);
+  contexts.set(controller.signal, modify(contextOf(signal)));
+  return run(controller.signal).finally(unlink);
+};
+
+/**
+ * Converts the abort reason of a signal into a `CancellationError`.
+ * シグナルの中断理由を `CancellationError` に変換します。
+ * @param signal - The aborted signal. / 中断されたシグナル。
+ */
+export const toCancellationError = (signal: AbortSignal): CancellationError =>
+  signal.reason instanceof CancellationError
+    ? signal.reason
+    : new CancellationError(undefined, signal.reason);
+
+/**
+ * Throws a `CancellationError` if the signal has been aborted.
+ * シグナルが中断されている場合は `CancellationError` をスローします。
+ * @param signal - The signal to check. / 確認するシグナル。
+ */
+export const throwIfCancelled = (signal: AbortSignal): void => {
+  if (signal.aborted) throw toCancellationError(signal);
+};
@@ -0,0 +1,183 @@
+import { Maybe } from "./Maybe";
+
+/**
+ * The progress of a repeated computation, passed to a `Schedule` after each run.
+ * 繰り返される計算の進行状況。各実行の後に `Schedule` に渡されます。
+ */
+export type ScheduleStep = {
+  /**
+   * The number of runs completed so far, starting at `1`.
+   * これまでに完了した実行の数（`1` から始まります）。
+   */
+  readonly attempt: number;
+
+  /**
+   * The time in milliseconds since the first run started, measured by the clock of the run.
+   * 実行のクロックで計測した、最初の実行の開始からのミリ秒単位の時間。
+   */
+  readonly elapsed: number;
+};
+
+/**
+ * Decides whether and when a computation runs again, based on its last output of type `A`.
+ * 型 `A` の直前の出力に基づいて、計算を再実行するかどうか、またいつ再実行するかを決定します。
+ */
+export type Schedule<A> = {
+  readonly isSchedule: true; // Identifies the object as a `Schedule`. / オブジェクトが `Schedule` であることを識別。
+
+  /**
+   * Gets the delay before the next run, or `Nothing` to stop.
+   * 次の実行までの待機時間、または停止を表す `Nothing` を取得します。
+   * @param input - The output of the last run. / 直前の実行の出力。
+   * @param step - The progress so far. / これまでの進行状況。
+   */
+  readonly next: (input: A, step: ScheduleStep) => Maybe<number>;
+
+  /**
+   * Continues only while both schedules continue, waiting for the longer of the two delays.
+   * 両方のスケジュールが継続する間のみ継続し、2 つの待機時間のうち長い方を待ちます。
+   * @param other - The other schedule. / もう一方のスケジュール。
+   */
+  readonly intersect: <B>(other: Schedule<B>) => Schedule<A & B>;
+
+  /**
+   * Continues while either schedule continues, waiting for the shorter of the continuing delays.
+   * いずれかのスケジュールが継続する間は継続し、継続する側の待機時間のうち短い方を待ちます。
+   * @param other - The other schedule. / もう一方のスケジュール。
+   */
+  readonly union: <B>(other: Schedule<B>) => Schedule<A & B>;
+
+  /**
+   * Stops after the given number of repetitions.
+   * 指定された回数の繰り返しの後に停止します。
+   * @param n - The maximum number of repetitions. / 繰り返しの最大回数。
+   */
+  readonly upTo: (n: number) => Schedule<A>;
+
+  /**
+   * Randomly scales each delay by up to the given factor in either direction.
+   * 各待機時間を、指定された割合の範囲で上下にランダムに変化させます。
+   * @param factor - The maximum relative change, defaults to `0.5`. / 最大の相対変化量。デフォルトは `0.5`。
+   */
+  readonly jittered: (factor?: number) => Schedule<A>;
+};
+
+/**
+ * Creates a new `Schedule` from a function deciding the delay before the next run.
+ * 次の実行までの待機時間を決定する関数から新しい `Schedule` を作成します。
+ * @param next - A function returning the delay, or `Nothing` to stop. / 待機時間、または停止を表す `Nothing` を返す関数。
+ */
+const schedule = <A>(
+  next: (input: A, step: ScheduleStep) => Maybe<number>
+): Schedule<A> => {
+  const intersect = <B>(other: Schedule<B>): Schedule<A & B> =>
+    schedule((input, step) =>
+      next(input, step).flatMap((a) =>
+        other.next(input, step).map((b) => Math.max(a, b))
+      )
+    );
+  const union = <B>(other: Schedule<B>): Schedule<A & B> =>
+    schedule((input, step) => {
+      const a = next(input, step);
+      const b = other.next(input, step);
+      if (Maybe.isNothing(a)) return b;
+      if (Maybe.isNothing(b)) return a;
+      return Maybe.just(Math.min(a.getValue(), b.getValue()));
+    });
+  const upTo = (n: number): Schedule<A> => intersect(recurs(n));
+  const jittered = (factor = 0.5): Schedule<A> =>
+    schedule((input, step) =>
+      next(input, step).map(
+        (delay) => delay * (1 + (Math.random() * 2 - 1) * factor)
+      )
+    );
+
+  return {
+    isSchedule: true,
+    next,
+    intersect,
+    union,
+    upTo,
+    jittered,
+  } as const;
+};
+
+/**
+ * Creates a `Schedule` that runs again immediately, forever.
+ * 永久に即座に再実行する `Schedule` を作成します。
+ */
+const forever = (): Schedule<unknown> => schedule(() => Maybe.just<number>(0));
+
+/**
+ * Creates a `Schedule` that runs again immediately, up to the given number of repetitions.
+ * 指定された回数まで、即座に再実行する `Schedule` を作成します。
+ * @param n - The maximum number of repetitions. / 繰り返しの最大回数。
+ */
+const recurs = (n: number): Schedule<unknown> =>
+  schedule((_, { attempt }) =>
+    attempt <= n ? Maybe.just<number>(0) : Maybe.nothing()
+  );
+
+/**
+ * Creates a `Schedule` that waits the given time after each run.
+ * 各実行の後に指定時間待機する `Schedule` を作成します。
+ * @param ms - The delay in milliseconds. / ミリ秒単位の待機時間。
+ */
+const spaced = (ms: number): Schedule<unknown> =>
+  schedule(() => Maybe.just(ms));
+
+/**
+ * Creates a `Schedule` that starts the runs at a fixed interval from the first start, however long each run takes.
+ * A run that overruns its slot is followed by the next one immediately.
+ * 各実行の所要時間にかかわらず、最初の開始から一定間隔で実行を開始する `Schedule` を作成します。
+ * 枠を超過した実行の後には、次の実行が即座に続きます。
+ * @param ms - The interval in milliseconds. / ミリ秒単位の間隔。
+ */
+const fixed = (ms: number): Schedule<unknown> =>
+  schedule((_, { attempt, elapsed }) =>
+    Maybe.just(Math.max(0, attempt * ms - elapsed))
+  );
+
+/**
+ * Creates a `Schedule` whose delay grows exponentially after each run.
+ * 各実行の後に待機時間が指数的に増加する `Schedule` を作成します。
+ * @param base - The first delay in milliseconds. / ミリ秒単位の最初の待機時間。
+ * @param factor - The growth factor, defaults to `2`. / 増加率。デフォルトは `2`。
+ */
+const exponential = (base: number, factor = 2): Schedule<unknown> =>
+  schedule((_, { attempt }) => Maybe.just(base * factor ** (attempt - 1)));
+
+/**
+ * Creates a `Schedule` that runs again immediately until the output satisfies the predicate.
+ * Combine it with `intersect` to wait between the runs.
+ * 出力が条件を満たすまで、即座に再実行する `Schedule` を作成します。
+ * 実行の間に待機するには `intersect` で組み合わせます。
+ * @param predicate - A function that decides whether to stop. / 停止するかどうかを判定する関数。
+ */
+const until = <A>(predicate: (input: A) => boolean): Schedule<A> =>
+  schedule((input) =>
+    predicate(input) ? Maybe.nothing() : Maybe.just<number>(0)
+  );
+
+/**
+ * Checks if the given value is a `Schedule`.
+ * 指定された値が `Schedule` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isSchedule = <A>(value: any): value is Schedule<A> =>
+  value?.isSchedule === true;
+
+/**
+ * Schedule utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `Schedule` ユーティリティオブジェクト。
+ */
+export const Schedule = {
+  from: schedule,
+  forever,
+  recurs,
+  spaced,
+  fixed,
+  exponential,
+  until,
+  isSchedule,
+} as const;
@@ -0,0 +1,202 @@
+import { toCancellationError } from "./RunContext";
+import { Task } from "./Task";
+
+/**
+ * Limits how many `Task`s guarded by it run at the same time.
+ * Waiting tasks are admitted in the order they arrived, and a cancelled waiter leaves the queue.
+ * 同時に実行される、保護された `Task` の数を制限します。
+ * 待機中のタスクは到着順に実行され、キャンセルされた待機者はキューから外れます。
+ */
+export type Semaphore = {
+  readonly isSemaphore: true; // Identifies the object as a `Semaphore`. / オブジェクトが `Semaphore` であることを識別。
+
+  /**
+   * Returns a `Task` that waits for a permit, runs the given `Task` and gives the permit back.
+   * 許可を待ち、指定された `Task` を実行してから許可を返却する `Task` を返します。
+   * @param task - The `Task` to guard. / 保護する `Task`。
+   */
+  readonly withPermit: <T>(task: Task<T>) => Task<T>;
+
+  /**
+   * Returns a `Task` that waits for the given number of permits, runs the given `Task` and gives the permits back.
+   * The `Task` fails with a `RangeError` if the number is not a positive integer or exceeds the total.
+   * 指定された数の許可を待ち、指定された `Task` を実行してから許可を返却する `Task` を返します。
+   * 数が正の整数でない場合や総数を超える場合、`Task` は `RangeError` で失敗します。
+   * @param permits - The number of permits to take. / 取得する許可の数。
+   * @param task - The `Task` to guard. / 保護する `Task`。
+   */
+  readonly withPermits: <T>(permits: number, task: Task<T>) => Task<T>;
+
+  /**
+   * Gets the number of permits that are currently free.
+   * 現在空いている許可の数を取得します。
+   */
+  readonly available: () => number;
+
+  /**
+   * Gets the number of runs waiting for permits.
+   * 許可を待っている実行の数を取得します。
+   */
+  readonly pending: () => number;
+};
+
+/**
+ * Lets only one `Task` guarded by it run at a time.
+ * 保護された `Task` を一度に 1 つだけ実行させます。
+ */
+export type Mutex = {
+  readonly isMutex: true; // Identifies the object as a `Mutex`. / オブジェクトが `Mutex` であることを識別。
+
+  /**
+   * Returns a `Task` that waits for the lock, runs the given `Task` and releases the lock.
+   * ロックを待ち、指定された `Task` を実行してからロックを解放する `Task` を返します。
+   * @param task - The `Task` to guard. / 保護する `Task`。
+   */
+  readonly withPermit: <T>(task: Task<T>) => Task<T>;
+
+  /**
+   * Checks whether a guarded `Task` is currently running.
+   * 保護された `Task` が現在実行中かどうかを判定します。
+   */
+  readonly isLocked: () => boolean;
+
+  /**
+   * Gets the number of runs waiting for the lock.
+   * ロックを待っている実行の数を取得します。
+   */
+  readonly pending: () => number;
+};
+
+/**
+ * Checks if the given number is a positive integer.
+ * 指定された数が正の整数かどうかを判定します。
+ * @param value - The number to check. / 判定する数。
+ */
+const isPositiveInteger = (value: number): boolean =>
+  Number.isInteger(value) && value > 0;
+
+/**
+ * Creates a new `Semaphore` with the given number of permits.
+ * Throws a `RangeError` if the number is not a positive integer.
+ * 指定された数の許可を持つ新しい `Semaphore` を作成します。
+ * 数が正の整数でない場合は `RangeError` をスローします。
+ * @param permits - The total number of permits. / 許可の総数。
+ */
+const create = (permits: number): Semaphore => {
+  if (!isPositiveInteger(permits)) {
+    throw new RangeError(
+      `permits must be a positive integer, but received ${permits}`
+    );
+  }
+  type Waiter = { permits: number; grant: () => void };
+  let free = permits;
+  const waiters: Waiter[] = [];
+
+  const admit = () => {
+    while (waiters.length > 0 && waiters[0].permits <= free) {
+      const waiter = waiters.shift() as Waiter;
+      free -= waiter.permits;
+      waiter.grant();
+    }
+  };
+  const release = (count: number) => {
+    free += count;
+    admit();
+  };
+  const acquire = (count: number, signal: AbortSignal): Promise<void> =>
+    new Promise<void>((resolve, reject) => {
+      if (!isPositiveInteger(count)) {
+        reject(
+          new RangeError(
+            `The number of permits to take must be a positive integer, but received ${count}`
+          )
+        );
+        return;
+      }
+      if (count > permits) {
+        reject(new RangeError(`Cannot take ${count} of ${permits} permit(s)`));
+        return;
+      }
+      if (signal.aborted) {
+        reject(toCancellationError(signal));
+        return;
+      }
+      const onAbort = () => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        reject(toCancellationError(signal));
+        admit();
+      };
+      const waiter: Waiter = {
+        permits: count,
+        grant: () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      waiters.push(waiter);
+      signal.addEventListener("abort", onAbort, { once: true });
+      admit();
+    });
+
+  const withPermits = <T>(count: number, task: Task<T>): Task<T> =>
+    Task.from((signal) =>
+      acquire(count, signal).then(() =>
+        task.run(signal).finally(() => release(count))
+      )
+    );
+
+  return {
+    isSemaphore: true,
+    withPermit: (task) => withPermits(1, task),
+    withPermits,
+    available: () => free,
+    pending: () => waiters.length,
+  };
+};
+
+/**
+ * Creates a new `Mutex`.
+ * 新しい `Mutex` を作成します。
+ */
+const createMutex = (): Mutex => {
+  const semaphore = create(1);
+  return {
+    isMutex: true,
+    withPermit: semaphore.withPermit,
+    isLocked: () => semaphore.available() === 0,
+    pending: semaphore.pending,
+  };
+};
+
+/**
+ * Checks if the given value is a `Semaphore`.
+ * 指定された値が `Semaphore` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isSemaphore = (value: any): value is Semaphore =>
+  value?.isSemaphore === true;
+
+/**
+ * Checks if the given value is a `Mutex`.
+ * 指定された値が `Mutex` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isMutex = (value: any): value is Mutex => value?.isMutex === true;
+
+/**
+ * Semaphore utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `Semaphore` ユーティリティオブジェクト。
+ */
+export const Semaphore = {
+  create,
+  isSemaphore,
+} as const;
+
+/**
+ * Mutex utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `Mutex` ユーティリティオブジェクト。
+ */
+export const Mutex = {
+  create: createMutex,
+  isMutex,
+} as const;
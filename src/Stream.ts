@@ -0,0 +1,389 @@
+import { Maybe } from "./Maybe";
+import { detachedSignal, linkController, throwIfCancelled } from "./RunContext";
+import { CancellationError, Fiber, Task } from "./Task";
+
+/**
+ * Represents a lazy, pull-based sequence of asynchronous values of type `A`.
+ * Values are produced only when they are pulled, and stopping early releases the resources of the upstream.
+ * 型 `A` の非同期な値の、遅延評価されるプル型のシーケンスを表します。
+ * 値は取り出されたときにのみ生成され、早期に停止すると上流のリソースが解放されます。
+ */
+export type Stream<A> = {
+  readonly isStream: true; // Identifies the object as a `Stream`. / オブジェクトが `Stream` であることを識別。
+
+  /**
+   * Transforms each value using the provided function and returns a new `Stream`.
+   * 各値を指定された関数で変換し、新しい `Stream` を返します。
+   * @param fn - A function to transform each value. / 各値を変換する関数。
+   */
+  readonly map: <B>(fn: (value: A) => B) => Stream<B>;
+
+  /**
+   * Transforms each value using the provided function and returns a new `Stream`.
+   * Alias for `map`.
+   * 各値を指定された関数で変換し、新しい `Stream` を返します。
+   * `map` のエイリアス。
+   * @param fn - A function to transform each value. / 各値を変換する関数。
+   */
+  readonly "<$>": <B>(fn: (value: A) => B) => Stream<B>;
+
+  /**
+   * Replaces each value with the values of the returned `Stream`, one `Stream` after another.
+   * 各値を返された `Stream` の値で置き換え、`Stream` を順番に連結します。
+   * @param fn - A function that returns a `Stream`. / `Stream` を返す関数。
+   */
+  readonly flatMap: <B>(fn: (value: A) => Stream<B>) => Stream<B>;
+
+  /**
+   * Replaces each value with the values of the returned `Stream`, one `Stream` after another.
+   * Alias for `flatMap`.
+   * 各値を返された `Stream` の値で置き換え、`Stream` を順番に連結します。
+   * `flatMap` のエイリアス。
+   * @param fn - A function that returns a `Stream`. / `Stream` を返す関数。
+   */
+  readonly ">>=": <B>(fn: (value: A) => Stream<B>) => Stream<B>;
+
+  /**
+   * Keeps only the values that satisfy the predicate.
+   * 条件を満たす値のみを残します。
+   * @param predicate - A function that decides whether to keep a value. / 値を残すかどうかを判定する関数。
+   */
+  readonly filter: (predicate: (value: A) => boolean) => Stream<A>;
+
+  /**
+   * Takes the first `n` values and stops pulling from the upstream afterwards.
+   * 最初の `n` 個の値を取り出し、その後は上流からの取り出しを停止します。
+   * @param n - The number of values to take. / 取り出す値の数。
+   */
+  readonly take: (n: number) => Stream<A>;
+
+  /**
+   * Groups the values into arrays of the given size. The last array may be shorter.
+   * 値を指定されたサイズの配列にまとめます。最後の配列はそれより短い場合があります。
+   * @param size - The size of each array. / 各配列のサイズ。
+   */
+  readonly chunk: (size: number) => Stream<A[]>;
+
+  /**
+   * Transforms each value with a `Task`, running up to `concurrency` tasks at once while preserving the order.
+   * 各値を `Task` で変換し、順序を保ったまま最大 `concurrency` 個のタスクを同時に実行します。
+   * @param concurrency - The maximum number of tasks running at once. / 同時に実行するタスクの最大数。
+   * @param fn - A function that returns a `Task` for each value. / 各値に対して `Task` を返す関数。
+   */
+  readonly mapConcurrent: <B>(
+    concurrency: number,
+    fn: (value: A) => Task<B>
+  ) => Stream<B>;
+
+  /**
+   * Interleaves the values of this `Stream` and another as soon as they are available.
+   * この `Stream` と別の `Stream` の値を、利用可能になった順に交互に並べます。
+   * @param other - The `Stream` to merge with. / 合流させる `Stream`。
+   */
+  readonly merge: <B>(other: Stream<B>) => Stream<A | B>;
+
+  /**
+   * Pairs the values of this `Stream` with those of another, ending with the shorter one.
+   * この `Stream` の値を別の `Stream` の値と組にし、短い方で終了します。
+   * @param other - The `Stream` to zip with. / 組にする `Stream`。
+   */
+  readonly zip: <B>(other: Stream<B>) => Stream<[A, B]>;
+
+  /**
+   * Returns a `Task` that pulls every value and collects them into an array.
+   * すべての値を取り出し、配列に集める `Task` を返します。
+   */
+  readonly runCollect: () => Task<A[]>;
+
+  /**
+   * Returns a `Task` that pulls every value and passes it to the given function.
+   * The next value is pulled only after the returned `Task` (if any) has completed.
+   * すべての値を取り出し、指定された関数に渡す `Task` を返します。
+   * 関数が `Task` を返した場合、それが完了してから次の値が取り出されます。
+   * @param fn - A function to call with each value. / 各値で呼び出す関数。
+   */
+  readonly runForEach: (fn: (value: A) => void | Task<void>) => Task<void>;
+
+  /**
+   * Converts the `Stream` into an `AsyncIterable` bound to the given signal.
+   * `Stream` を指定されたシグナルに結び付いた `AsyncIterable` に変換します。
+   * @param signal - An optional signal to cancel the iteration. / 反復をキャンセルするための任意のシグナル。
+   */
+  readonly toAsyncIterable: (signal?: AbortSignal) => AsyncIterable<A>;
+};
+
+/**
+ * Pulls the next value of each iterator at the same time.
+ * 各イテレーターの次の値を同時に取り出します。
+ * @param iterators - The iterators to pull from. / 取り出し元のイテレーター。
+ */
+const pullAll = <T extends unknown[]>(iterators: {
+  [K in keyof T]: AsyncIterator<T[K]>;
+}) =>
+  Promise.all(iterators.map((iterator) => iterator.next())) as Promise<{
+    [K in keyof T]: IteratorResult<T[K]>;
+  }>;
+
+/**
+ * Creates a new `Stream` from a function producing an `AsyncIterable` for a signal.
+ * シグナルに対して `AsyncIterable` を生成する関数から新しい `Stream` を作成します。
+ * @param source - A function that produces the values. / 値を生成する関数。
+ */
+const stream = <A>(
+  source: (signal: AbortSignal) => AsyncIterable<A>
+): Stream<A> => {
+  const map = <B>(fn: (value: A) => B): Stream<B> =>
+    stream(async function* (signal) {
+      for await (const value of source(signal)) yield fn(value);
+    });
+  const flatMap = <B>(fn: (value: A) => Stream<B>): Stream<B> =>
+    stream(async function* (signal) {
+      for await (const value of source(signal)) {
+        yield* fn(value).toAsyncIterable(signal);
+      }
+    });
+  const filter = (predicate: (value: A) => boolean): Stream<A> =>
+    stream(async function* (signal) {
+      for await (const value of source(signal)) {
+        if (predicate(value)) yield value;
+      }
+    });
+  const take = (n: number): Stream<A> =>
+    stream(async function* (signal) {
+      if (n <= 0) return;
+      let taken = 0;
+      for await (const value of source(signal)) {
+        yield value;
+        if (++taken >= n) return;
+      }
+    });
+  const chunk = (size: number): Stream<A[]> =>
+    stream(async function* (signal) {
+      let buffer: A[] = [];
+      for await (const value of source(signal)) {
+        buffer.push(value);
+        if (buffer.length >= size) {
+          yield buffer;
+          buffer = [];
+        }
+      }
+      if (buffer.length > 0) yield buffer;
+    });
+  const mapConcurrent = <B>(
+    concurrency: number,
+    fn: (value: A) => Task<B>
+  ): Stream<B> =>
+    stream(async function* (signal) {
+      const iterator = source(signal)[Symbol.asyncIterator]();
+      const fibers: Fiber<B>[] = [];
+      let exhausted = false;
+      try {
+        for (;;) {
+          while (!exhausted && fibers.length < Math.max(1, concurrency)) {
+            const next = await iterator.next();
+            if (next.done) {
+              exhausted = true;
+            } else {
+              fibers.push(await fn(next.value).fork().run(signal));
+            }
+          }
+          const fiber = fibers.shift();
+          if (!fiber) return;
+          yield await fiber.join().run(signal);
+        }
+      } finally {
+        await Promise.all(fibers.map((fiber) => fiber.cancel().run()));
+        if (!exhausted) await iterator.return?.();
+      }
+    });
+  const merge = <B>(other: Stream<B>): Stream<A | B> =>
+    stream(async function* (signal) {
+      const { controller, unlink } = linkController(signal);
+      const iterators: AsyncIterator<A | B>[] = [
+        source(controller.signal)[Symbol.asyncIterator](),
+        other.toAsyncIterable(controller.signal)[Symbol.asyncIterator](),
+      ];
+      const pending = new Map<
+        number,
+        Promise<{ index: number; result: IteratorResult<A | B> }>
+      >();
+      const pull = (index: number) => {
+        const next = iterators[index]
+          .next()
+          .then((result) => ({ index, result }));
+        next.catch(() => undefined);
+        pending.set(index, next);
+      };
+      try {
+        iterators.forEach((_, index) => pull(index));
+        while (pending.size > 0) {
+          const { index, result } = await Promise.race(pending.values());
+          if (result.done) {
+            pending.delete(index);
+          } else {
+            pull(index);
+            yield result.value;
+          }
+        }
+      } finally {
+        controller.abort(new CancellationError("Stream was closed"));
+        unlink();
+        pending.forEach((_, index) =>
+          iterators[index].return?.().catch(() => undefined)
+        );
+      }
+    });
+  const zip = <B>(other: Stream<B>): Stream<[A, B]> =>
+    stream(async function* (signal) {
+      const left = source(signal)[Symbol.asyncIterator]();
+      const right = other.toAsyncIterable(signal)[Symbol.asyncIterator]();
+      let done = [false, false];
+      try {
+        for (;;) {
+          const [a, b] = await pullAll<[A, B]>([left, right]);
+          done = [!!a.done, !!b.done];
+          if (a.done || b.done) return;
+          yield [a.value, b.value];
+        }
+      } finally {
+        await Promise.all([
+          done[0] ? undefined : left.return?.(),
+          done[1] ? undefined : right.return?.(),
+        ]);
+      }
+    });
+  const runForEach = (fn: (value: A) => void | Task<void>): Task<void> =>
+    Task.from(async (signal) => {
+      for await (const value of source(signal)) {
+        throwIfCancelled(signal);
+        const result = fn(value);
+        if (Task.isTask(result)) await result.run(signal);
+      }
+    });
+  const runCollect = (): Task<A[]> =>
+    Task.from(async (signal) => {
+      const values: A[] = [];
+      for await (const value of source(signal)) {
+        throwIfCancelled(signal);
+        values.push(value);
+      }
+      return values;
+    });
+  const toAsyncIterable = (
+    signal: AbortSignal = new AbortController().signal
+  ): AsyncIterable<A> => source(signal);
+
+  return {
+    isStream: true,
+    map,
+    flatMap,
+    filter,
+    take,
+    chunk,
+    mapConcurrent,
+    merge,
+    zip,
+    runCollect,
+    runForEach,
+    toAsyncIterable,
+    "<$>": map,
+    ">>=": flatMap,
+  } as const;
+};
+
+/**
+ * Creates a `Stream` from a synchronous or asynchronous iterable.
+ * 同期または非同期のイテラブルから `Stream` を作成します。
+ * @param iterable - The iterable to read. / 読み取るイテラブル。
+ */
+const from = <A>(iterable: Iterable<A> | AsyncIterable<A>): Stream<A> =>
+  stream(async function* () {
+    yield* iterable;
+  });
+
+/**
+ * Creates a `Stream` of the given values.
+ * 指定された値の `Stream` を作成します。
+ * @param values - The values of the `Stream`. / `Stream` の値。
+ */
+const of = <A>(...values: A[]): Stream<A> => from(values);
+
+/**
+ * Creates a `Stream` with the single value produced by a `Task`.
+ * `Task` が生成する 1 つの値からなる `Stream` を作成します。
+ * @param task - The `Task` producing the value. / 値を生成する `Task`。
+ */
+const fromTask = <A>(task: Task<A>): Stream<A> =>
+  stream(async function* (signal) {
+    yield await task.run(signal);
+  });
+
+/**
+ * Creates a `Stream` by repeatedly running a `Task` on a state, such as a pagination cursor.
+ * The `Stream` ends when the `Task` resolves with `Nothing`.
+ * ページネーションのカーソルなどの状態に対して `Task` を繰り返し実行して `Stream` を作成します。
+ * `Task` が `Nothing` で解決すると `Stream` は終了します。
+ * @param initial - The initial state. / 初期状態。
+ * @param fn - A function returning the next value and state, or `Nothing` to stop. / 次の値と状態、または停止を表す `Nothing` を返す関数。
+ */
+const unfold = <S, A>(
+  initial: S,
+  fn: (state: S) => Task<Maybe<[A, S]>>
+): Stream<A> =>
+  stream(async function* (signal) {
+    let state = initial;
+    for (;;) {
+      const next = await fn(state).run(signal);
+      if (Maybe.isNothing(next)) return;
+      const [value, nextState] = next.getValue();
+      yield value;
+      state = nextState;
+    }
+  });
+
+/**
+ * Creates a `Stream` that acquires a resource, emits the values of the `Stream` built from it and releases it afterwards.
+ * The release runs exactly once when the `Stream` completes, fails or is stopped early.
+ * The acquisition is not interrupted by cancellation, so a resource acquired after cancellation is released right away.
+ * リソースを取得し、それから作成された `Stream` の値を出力し、その後解放する `Stream` を作成します。
+ * 解放は、`Stream` が完了・失敗・早期停止のいずれで終わっても正確に 1 回実行されます。
+ * 取得はキャンセルによって中断されないため、キャンセル後に取得されたリソースはすぐに解放されます。
+ * @param acquire - A `Task` that acquires the resource. / リソースを取得する `Task`。
+ * @param use - A function that builds a `Stream` from the resource. / リソースから `Stream` を作成する関数。
+ * @param release - A function that releases the resource. / リソースを解放する関数。
+ */
+const bracket = <R, A>(
+  acquire: Task<R>,
+  use: (resource: R) => Stream<A>,
+  release: (resource: R) => Task<void>
+): Stream<A> =>
+  stream(async function* (signal) {
+    const resource = await acquire.run(detachedSignal(signal));
+    try {
+      throwIfCancelled(signal);
+      yield* use(resource).toAsyncIterable(signal);
+    } finally {
+      await release(resource).run(detachedSignal(signal));
+    }
+  });
+
+/**
+ * Checks if the given value is a `Stream`.
+ * 指定された値が `Stream` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isStream = <A>(value: any): value is Stream<A> =>
+  value?.isStream === true;
+
+/**
+ * Stream utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `Stream` ユーティリティオブジェクト。
+ */
+export const Stream = {
+  from,
+  of,
+  fromTask,
+  unfold,
+  bracket,
+  isStream,
+} as const;
@@ -1,3 +1,22 @@
+import { Clock } from "./Clock";
+import { Either } from "./Either";
+import { Maybe } from "./Maybe";
+import { RBox } from "./RBox";
+import { Schedule } from "./Schedule";
+import {
+  contextOf,
+  detachedSignal,
+  forkController,
+  linkController,
+  retain,
+  runWithContext,
+  setContext,
+  startRun,
+  throwIfCancelled,
+  toCancellationError,
+  type RunContext,
+} from "./RunContext";
+
 /**
  * Represents an asynchronous computation that produces a value of type `T`.
  * 非同期の計算を表し、型 `T` の値を生成します。
@@ -53,65 +72,1107 @@ export type Task<T> = {
    */
   readonly "<*>": <U, V>(taskValue: Task<U>) => Task<V>;
 
+  /**
+   * Applies a `Task` that contains a function to a `Task` that contains a value, running both concurrently.
+   * 関数を含む `Task` を値を含む別の `Task` に適用し、両方を並行して実行します。
+   * @param taskValue - A `Task` containing the value. / 値を含む `Task`。
+   */
+  readonly parApply: <U, V>(taskValue: Task<U>) => Task<V>;
+
+  /**
+   * Waits for the given time before running the `Task`.
+   * 指定時間待機してから `Task` を実行します。
+   * @param ms - The time to wait in milliseconds. / ミリ秒単位の待機時間。
+   */
+  readonly delay: (ms: number) => Task<T>;
+
+  /**
+   * Fails with a `TimeoutError` if the `Task` does not settle within the given time, cancelling the pending work.
+   * 指定時間内に `Task` が完了しない場合は `TimeoutError` で失敗し、実行中の処理をキャンセルします。
+   * @param ms - The time limit in milliseconds. / ミリ秒単位の制限時間。
+   */
+  readonly timeout: (ms: number) => Task<T>;
+
+  /**
+   * Re-runs the `Task` when it fails, following the given retry policy or the given schedule, which receives each error.
+   * Cancellation is never retried.
+   * 失敗した場合に、指定されたリトライポリシー、または各エラーを受け取る指定されたスケジュールに従って `Task` を再実行します。
+   * キャンセルはリトライされません。
+   * @param policy - The retry policy or schedule. / リトライポリシーまたはスケジュール。
+   */
+  readonly retry: (policy?: RetryPolicy | Schedule<unknown>) => Task<T>;
+
+  /**
+   * Runs the `Task` again after each success for as long as the schedule continues, collecting every output.
+   * A failed run fails the whole `Task`.
+   * スケジュールが継続する限り、成功するたびに `Task` を再実行し、すべての出力を集めます。
+   * いずれかの実行が失敗すると、`Task` 全体が失敗します。
+   * @param schedule - The schedule receiving each output. / 各出力を受け取るスケジュール。
+   */
+  readonly repeat: (schedule: Schedule<T>) => Task<T[]>;
+
+  /**
+   * Returns a `Task` that runs this `Task` at most once and shares the result with every later run.
+   * Failures are not cached, so a failed run is retried by the next caller.
+   * この `Task` を最大 1 回だけ実行し、その結果を以降のすべての実行で共有する `Task` を返します。
+   * 失敗はキャッシュされないため、失敗した実行は次の呼び出し時に再実行されます。
+   */
+  readonly memoize: () => MemoizedTask<T>;
+
+  /**
+   * Returns a `Task` that starts this `Task` in the background and resolves immediately with its `Fiber`.
+   * The fiber is cancelled together with the run that forked it.
+   * この `Task` をバックグラウンドで開始し、その `Fiber` で即座に解決する `Task` を返します。
+   * ファイバーは、それをフォークした実行と一緒にキャンセルされます。
+   */
+  readonly fork: () => Task<Fiber<T>>;
+
+  /**
+   * Returns a `Task` that reports its runs to the tracer of the run under the given name.
+   * Errors raised inside it are augmented with `taskTrace`, the chain of names from the outermost named `Task`.
+   * 指定された名前で、実行のトレーサーに実行を報告する `Task` を返します。
+   * 内部で発生したエラーには、最も外側の名前付き `Task` からの名前の連なりである `taskTrace` が追加されます。
+   * @param name - The name of the `Task`. / `Task` の名前。
+   */
+  readonly named: (name: string) => Task<T>;
+
   /**
    * Executes the asynchronous computation and returns a `Promise` that resolves with the result.
+   * When the given signal is aborted, pending steps are skipped and the `Promise` rejects with a `CancellationError`.
    * 非同期計算を実行し、その結果で解決する `Promise` を返します。
+   * 指定されたシグナルが中断されると、未実行のステップはスキップされ、`Promise` は `CancellationError` で拒否されます。
+   * @param signal - An optional signal to cancel the computation. / 計算をキャンセルするための任意のシグナル。
+   */
+  readonly run: (signal?: AbortSignal) => Promise<T>;
+
+  /**
+   * Executes the asynchronous computation and returns a `Promise` that resolves with the result.
+   * Same as `run`, spelled out for code handing the result over to `Promise`-based APIs.
+   * 非同期計算を実行し、その結果で解決する `Promise` を返します。
+   * `run` と同じで、結果を `Promise` ベースの API に渡すコードで意図を明示するためのものです。
+   * @param signal - An optional signal to cancel the computation. / 計算をキャンセルするための任意のシグナル。
+   */
+  readonly toPromise: (signal?: AbortSignal) => Promise<T>;
+};
+
+/**
+ * Describes how a failing `Task` is retried.
+ * 失敗した `Task` をどのようにリトライするかを表します。
+ */
+export type RetryPolicy = {
+  /**
+   * The maximum number of attempts, including the first one. Defaults to `3`.
+   * 最初の試行を含む最大試行回数。デフォルトは `3`。
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * The base delay between attempts in milliseconds. Defaults to `0`.
+   * 試行間のミリ秒単位の基本待機時間。デフォルトは `0`。
+   */
+  readonly delay?: number;
+
+  /**
+   * How the delay grows between attempts. Defaults to `"fixed"`.
+   * 試行ごとの待機時間の増え方。デフォルトは `"fixed"`。
+   */
+  readonly backoff?: "fixed" | "exponential";
+
+  /**
+   * The multiplier for exponential backoff. Defaults to `2`.
+   * 指数バックオフの倍率。デフォルトは `2`。
+   */
+  readonly factor?: number;
+
+  /**
+   * The upper bound of a single delay in milliseconds.
+   * 1 回の待機時間のミリ秒単位の上限。
+   */
+  readonly maxDelay?: number;
+
+  /**
+   * Randomizes each delay between `0` and the computed delay (full jitter).
+   * 各待機時間を `0` から計算された待機時間の間でランダム化します（フルジッター）。
+   */
+  readonly jitter?: boolean;
+
+  /**
+   * The total time budget in milliseconds; no retry is scheduled beyond it.
+   * ミリ秒単位の合計時間の上限。これを超えるリトライは行われません。
+   */
+  readonly maxElapsed?: number;
+
+  /**
+   * Decides whether the given error should be retried.
+   * 指定されたエラーをリトライするかどうかを判定します。
+   * @param error - The error of the failed attempt. / 失敗した試行のエラー。
+   * @param attempt - The number of the failed attempt, starting at `1`. / 失敗した試行の番号（`1` から開始）。
+   */
+  readonly shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /**
+   * Called before each attempt starts.
+   * 各試行の開始前に呼び出されます。
+   * @param attempt - The number of the attempt, starting at `1`. / 試行の番号（`1` から開始）。
+   */
+  readonly onAttempt?: (attempt: number) => void;
+
+  /**
+   * Called when a failed attempt is going to be retried.
+   * 失敗した試行がリトライされる際に呼び出されます。
+   * @param error - The error of the failed attempt. / 失敗した試行のエラー。
+   * @param attempt - The number of the failed attempt. / 失敗した試行の番号。
+   * @param delay - The delay before the next attempt in milliseconds. / 次の試行までのミリ秒単位の待機時間。
+   */
+  readonly onRetry?: (error: unknown, attempt: number, delay: number) => void;
+};
+
+/**
+ * An error indicating that a `Task` was cancelled through its `AbortSignal`.
+ * `Task` が `AbortSignal` によってキャンセルされたことを示すエラー。
+ */
+export class CancellationError extends Error {
+  override readonly name = "CancellationError";
+
+  /**
+   * @param message - The error message. / エラーメッセージ。
+   * @param reason - The abort reason of the signal. / シグナルの中断理由。
+   */
+  constructor(message = "Task was cancelled", readonly reason?: unknown) {
+    super(message);
+  }
+}
+
+/**
+ * An error indicating that a `Task` did not settle within its time limit.
+ * `Task` が制限時間内に完了しなかったことを示すエラー。
+ */
+export class TimeoutError extends Error {
+  override readonly name = "TimeoutError";
+
+  /**
+   * @param ms - The exceeded time limit in milliseconds. / 超過したミリ秒単位の制限時間。
+   * @param message - The error message. / エラーメッセージ。
+   */
+  constructor(readonly ms: number, message = `Task timed out after ${ms}ms`) {
+    super(message);
+  }
+}
+
+/**
+ * An error collecting the failures of several `Task`s.
+ * 複数の `Task` の失敗をまとめたエラー。
+ */
+export class TaskAggregateError extends Error {
+  override readonly name = "TaskAggregateError";
+
+  /**
+   * @param errors - The collected errors. / 収集されたエラー。
+   * @param message - The error message. / エラーメッセージ。
+   */
+  constructor(readonly errors: unknown[], message = "All tasks failed") {
+    super(message);
+  }
+}
+
+/**
+ * Extracts the value type produced by a `Task`.
+ * `Task` が生成する値の型を取り出します。
+ */
+export type TaskValue<T> = T extends Task<infer U> ? U : never;
+
+/**
+ * The lifecycle state of a `Fiber`.
+ * `Fiber` のライフサイクルの状態。
+ */
+export type FiberStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * A handle to a `Task` running in the background.
+ * バックグラウンドで実行中の `Task` へのハンドル。
+ */
+export type Fiber<T> = {
+  readonly isFiber: true; // Identifies the object as a `Fiber`. / オブジェクトが `Fiber` であることを識別。
+
+  /**
+   * Gets the current state of the fiber.
+   * ファイバーの現在の状態を取得します。
+   */
+  readonly status: () => FiberStatus;
+
+  /**
+   * Returns a `Task` that waits for the fiber and settles with its outcome.
+   * Cancelling the returned `Task` only stops waiting; use `cancel` to stop the fiber itself.
+   * ファイバーを待機し、その結果で完了する `Task` を返します。
+   * 返された `Task` をキャンセルしても待機が止まるだけです。ファイバー自体を止めるには `cancel` を使用します。
+   */
+  readonly join: () => Task<T>;
+
+  /**
+   * Returns a `Task` that cancels the fiber and waits until it has settled.
+   * ファイバーをキャンセルし、完了するまで待機する `Task` を返します。
+   */
+  readonly cancel: () => Task<void>;
+};
+
+/**
+ * A scope that supervises the fibers forked through it.
+ * スコープを通じてフォークされたファイバーを監督するスコープ。
+ */
+export type Scope = {
+  /**
+   * Returns a `Task` that starts the given `Task` as a child fiber of the scope.
+   * 指定された `Task` をスコープの子ファイバーとして開始する `Task` を返します。
+   * @param task - The `Task` to start. / 開始する `Task`。
    */
-  readonly run: () => Promise<T>;
+  readonly fork: <U>(task: Task<U>) => Task<Fiber<U>>;
 };
 
+/**
+ * Options for `Task.scope`.
+ * `Task.scope` のオプション。
+ */
+export type ScopeOptions = {
+  /**
+   * What happens to running child fibers when the scope completes successfully.
+   * `"wait"` waits for them (the default) and `"cancel"` cancels them.
+   * Child fibers are always cancelled when the scope fails or is cancelled.
+   * スコープが正常に完了した際に、実行中の子ファイバーをどうするか。
+   * `"wait"` は完了を待ち（デフォルト）、`"cancel"` はキャンセルします。
+   * スコープが失敗またはキャンセルされた場合、子ファイバーは常にキャンセルされます。
+   */
+  readonly onExit?: "wait" | "cancel";
+};
+
+/**
+ * A `Task` that shares the result of a single execution and can be invalidated or refreshed.
+ * 1 回の実行結果を共有し、無効化や再取得ができる `Task`。
+ */
+export type MemoizedTask<T> = Task<T> & {
+  /**
+   * Discards the shared result so that the next run executes the computation again.
+   * 共有された結果を破棄し、次回の実行で再び計算が実行されるようにします。
+   */
+  readonly invalidate: () => void;
+
+  /**
+   * Returns a `Task` that executes the computation again and replaces the shared result.
+   * 計算を再実行し、共有された結果を置き換える `Task` を返します。
+   */
+  readonly refresh: () => Task<T>;
+};
+
+/**
+ * A `Task` that can be awaited directly, running it once per `await`.
+ * Like any thenable, it is run and replaced by its value wherever a `Promise` is resolved with it,
+ * such as when it is returned from `map`, passed to `Task.pack` or returned from a `then` callback,
+ * so it should not be used as a value inside other `Task`s or `Promise`s.
+ * 直接 `await` でき、`await` のたびに 1 回実行される `Task`。
+ * 他の thenable と同様に、`map` から返された場合、`Task.pack` に渡された場合、`then` のコールバックから返された場合など、
+ * `Promise` がそれで解決される箇所ではすべて実行されてその値に置き換えられるため、他の `Task` や `Promise` の中の値として使用すべきではありません。
+ */
+export type ThenableTask<T> = Task<T> & PromiseLike<T>;
+
+/**
+ * A `Task` whose progress is observable while it runs.
+ * 実行中の進捗を監視できる `Task`。
+ */
+export type TrackedTask<T> = Task<T> & {
+  /**
+   * The progress of the latest run, between `0` and `1`.
+   * 最新の実行の進捗（`0` から `1` の間）。
+   */
+  readonly progress: RBox<number>;
+};
+
+/**
+ * A function returning cached `Task`s, keyed by its arguments.
+ * 引数をキーとしてキャッシュされた `Task` を返す関数。
+ */
+export type CachedTaskFn<A extends unknown[], T> = ((...args: A) => Task<T>) & {
+  /**
+   * Discards the cached result for the given arguments.
+   * 指定された引数に対するキャッシュ結果を破棄します。
+   * @param args - The arguments of the entry to discard. / 破棄するエントリの引数。
+   */
+  readonly invalidate: (...args: A) => void;
+
+  /**
+   * Discards every cached result.
+   * すべてのキャッシュ結果を破棄します。
+   */
+  readonly clear: () => void;
+
+  /**
+   * Returns a `Task` that executes the computation again and replaces the cached result.
+   * 計算を再実行し、キャッシュ結果を置き換える `Task` を返します。
+   * @param args - The arguments of the entry to refresh. / 再取得するエントリの引数。
+   */
+  readonly refresh: (...args: A) => Task<T>;
+};
+
+/**
+ * Options for `Task.cached`.
+ * `Task.cached` のオプション。
+ */
+export type CacheOptions<A extends unknown[]> = {
+  /**
+   * Computes the cache key from the arguments. Defaults to `JSON.stringify` of the arguments.
+   * 引数からキャッシュキーを計算します。デフォルトは引数の `JSON.stringify`。
+   */
+  readonly key?: (...args: A) => unknown;
+
+  /**
+   * How long a result stays cached in milliseconds. Defaults to forever.
+   * 結果をキャッシュしておくミリ秒単位の時間。デフォルトは無期限。
+   */
+  readonly ttl?: number;
+};
+
+/**
+ * Options for running several `Task`s together.
+ * 複数の `Task` をまとめて実行する際のオプション。
+ */
+export type ConcurrencyOptions = {
+  /**
+   * The maximum number of tasks running at the same time, as a positive integer. Defaults to no limit.
+   * Other values fail the `Task` with a `RangeError`.
+   * 同時に実行するタスクの最大数を正の整数で指定します。デフォルトは無制限。
+   * それ以外の値を指定すると、`Task` は `RangeError` で失敗します。
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Cancels the tasks still running once one of them fails. Defaults to `true`.
+   * いずれかのタスクが失敗した時点で、実行中のタスクをキャンセルします。デフォルトは `true`。
+   */
+  readonly cancelOnFailure?: boolean;
+
+  /**
+   * Lets every task settle and fails with a `TaskAggregateError` of all the errors instead of only the first one.
+   * The tasks still running are not cancelled when one fails. Defaults to `false`.
+   * 最初のエラーだけでなく、すべてのタスクの完了を待ってからすべてのエラーを含む `TaskAggregateError` で失敗します。
+   * いずれかが失敗しても、実行中のタスクはキャンセルされません。デフォルトは `false`。
+   */
+  readonly collectErrors?: boolean;
+};
+
+/**
+ * The outcomes of several `Task`s split into successes and failures.
+ * 成功と失敗に分けられた、複数の `Task` の結果。
+ */
+export type Partitioned<T> = {
+  /**
+   * The values of the tasks that succeeded, in order.
+   * 成功したタスクの値（順番通り）。
+   */
+  readonly successes: T[];
+
+  /**
+   * The errors of the tasks that failed, in order.
+   * 失敗したタスクのエラー（順番通り）。
+   */
+  readonly failures: unknown[];
+};
+
+/**
+ * Describes one run of a named `Task`.
+ * 名前付き `Task` の 1 回の実行を表します。
+ */
+export type TraceSpan = {
+  /**
+   * The identifier of the run, unique within the process.
+   * プロセス内で一意な実行の識別子。
+   */
+  readonly id: number;
+
+  /**
+   * The name of the `Task`.
+   * `Task` の名前。
+   */
+  readonly name: string;
+
+  /**
+   * The identifier of the enclosing named run, if any.
+   * 外側の名前付き実行の識別子（存在する場合）。
+   */
+  readonly parentId?: number;
+
+  /**
+   * The names from the outermost named run down to this one.
+   * 最も外側の名前付き実行からこの実行までの名前。
+   */
+  readonly path: readonly string[];
+
+  /**
+   * The time the run started, measured by the clock of the run.
+   * 実行のクロックで計測した、実行の開始時刻。
+   */
+  readonly startedAt: number;
+};
+
+/**
+ * Receives the events of named `Task`s, for example to log them or to export their timings.
+ * 名前付き `Task` のイベントを受け取ります。ログの出力や所要時間のエクスポートなどに使用します。
+ */
+export type Tracer = {
+  /**
+   * Called when a named `Task` starts.
+   * 名前付き `Task` が開始したときに呼び出されます。
+   * @param span - The run that started. / 開始した実行。
+   */
+  readonly onStart?: (span: TraceSpan) => void;
+
+  /**
+   * Called when a named `Task` succeeds.
+   * 名前付き `Task` が成功したときに呼び出されます。
+   * @param span - The run that ended. / 終了した実行。
+   * @param duration - The duration of the run in milliseconds. / ミリ秒単位の実行の所要時間。
+   */
+  readonly onEnd?: (span: TraceSpan, duration: number) => void;
+
+  /**
+   * Called when a named `Task` fails or is cancelled.
+   * 名前付き `Task` が失敗またはキャンセルされたときに呼び出されます。
+   * @param span - The run that failed. / 失敗した実行。
+   * @param error - The error of the run. / 実行のエラー。
+   * @param duration - The duration of the run in milliseconds. / ミリ秒単位の実行の所要時間。
+   */
+  readonly onError?: (
+    span: TraceSpan,
+    error: unknown,
+    duration: number
+  ) => void;
+};
+
+/**
+ * A Node-style callback that receives an error or a value.
+ * エラーまたは値を受け取る Node 形式のコールバック。
+ */
+export type NodeCallback<T> = (error: unknown, value?: T) => void;
+
+/**
+ * An object that emits named events, such as a Node `EventEmitter` or a DOM `EventTarget`.
+ * Node の `EventEmitter` や DOM の `EventTarget` など、名前付きのイベントを発行するオブジェクト。
+ */
+export type EventEmitterLike =
+  | {
+      readonly on: (
+        event: string,
+        listener: (...args: any[]) => void
+      ) => unknown;
+      readonly off: (
+        event: string,
+        listener: (...args: any[]) => void
+      ) => unknown;
+    }
+  | {
+      readonly addEventListener: (
+        event: string,
+        listener: (event: any) => void
+      ) => unknown;
+      readonly removeEventListener: (
+        event: string,
+        listener: (event: any) => void
+      ) => unknown;
+    };
+
+/**
+ * Options for `Task.fromEvent`.
+ * `Task.fromEvent` のオプション。
+ */
+export type FromEventOptions = {
+  /**
+   * The name of an event that makes the `Task` fail with its payload, such as `"error"`.
+   * `"error"` など、そのペイロードで `Task` を失敗させるイベントの名前。
+   */
+  readonly errorEvent?: string;
+};
+
+/**
+ * Converts a union type into an intersection type.
+ * 合併型を交差型に変換します。
+ */
+type UnionToIntersection<U> = (
+  U extends unknown ? (value: U) => void : never
+) extends (value: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Converts the parameters of a callback-taking signature into a function returning a `Task`.
+ * The value of an optional callback parameter is treated as required.
+ * コールバックを受け取るシグネチャの引数を、`Task` を返す関数に変換します。
+ * 省略可能なコールバック引数の値は、必須として扱われます。
+ */
+type PromisifiedSignature<A> = A extends [
+  ...infer P,
+  (error: any, value: infer V) => any
+]
+  ? (...args: P) => Task<Exclude<V, undefined>>
+  : never;
+
+/**
+ * The type of a callback-taking function converted by `Task.promisify`, keeping up to four overloads.
+ * `Task.promisify` で変換された、コールバックを受け取る関数の型。最大 4 つのオーバーロードを保持します。
+ */
+export type Promisified<F> = F extends {
+  (...args: infer A1): any;
+  (...args: infer A2): any;
+  (...args: infer A3): any;
+  (...args: infer A4): any;
+}
+  ? UnionToIntersection<
+      | PromisifiedSignature<A1>
+      | PromisifiedSignature<A2>
+      | PromisifiedSignature<A3>
+      | PromisifiedSignature<A4>
+    >
+  : never;
+
+/**
+ * Creates a `Task` that runs the given `Task` with a modified run context.
+ * 変更された実行コンテキストで指定された `Task` を実行する `Task` を作成します。
+ * @param inner - The `Task` to run. / 実行する `Task`。
+ * @param modify - A function that derives the new context. / 新しいコンテキストを導出する関数。
+ */
+const withContext = <T>(
+  inner: Task<T>,
+  modify: (context: RunContext) => RunContext
+): Task<T> => task((signal) => runWithContext(signal, modify, inner.run));
+
+/**
+ * The identifier of the next named run.
+ * 次の名前付き実行の識別子。
+ */
+let nextSpanId = 0;
+
+/**
+ * Attaches the chain of task names to an error raised inside a named run, unless an inner run already did.
+ * The chain is also appended to the stack so that it shows up in the usual error output.
+ * 名前付き実行の内部で発生したエラーに、内側の実行がまだ追加していなければタスク名の連なりを追加します。
+ * 通常のエラー出力に表示されるよう、連なりはスタックにも追記されます。
+ * @param error - The error to augment. / 追加先のエラー。
+ * @param span - The run that failed. / 失敗した実行。
+ */
+const addTaskTrace = (error: unknown, span: TraceSpan): void => {
+  if (
+    !(error instanceof Error) ||
+    error instanceof CancellationError ||
+    Object.prototype.hasOwnProperty.call(error, "taskTrace") ||
+    !Object.isExtensible(error)
+  ) {
+    return;
+  }
+  Object.defineProperty(error, "taskTrace", {
+    value: span.path,
+    enumerable: false,
+  });
+  error.stack = [
+    error.stack,
+    ...[...span.path].reverse().map((name) => `    at task ${name}`),
+  ].join("\n");
+};
+
+/**
+ * Resolves after the given time, or rejects with a `CancellationError` when the signal is aborted first.
+ * 指定時間の経過後に解決し、先にシグナルが中断された場合は `CancellationError` で拒否します。
+ * @param ms - The time to wait in milliseconds. / ミリ秒単位の待機時間。
+ * @param signal - The signal to observe. / 監視するシグナル。
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(toCancellationError(signal));
+      return;
+    }
+    const { clock } = contextOf(signal);
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(toCancellationError(signal));
+    };
+    const timer = clock.setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Computes the delay before the next attempt of a retry policy.
+ * リトライポリシーにおける次の試行までの待機時間を計算します。
+ * @param policy - The retry policy. / リトライポリシー。
+ * @param attempt - The number of the failed attempt. / 失敗した試行の番号。
+ */
+const retryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const base = policy.delay ?? 0;
+  const grown =
+    policy.backoff === "exponential"
+      ? base * (policy.factor ?? 2) ** (attempt - 1)
+      : base;
+  const capped = Math.min(grown, policy.maxDelay ?? Infinity);
+  return policy.jitter ? Math.random() * capped : capped;
+};
+
+/**
+ * Runs a computation with the given signal and rejects as soon as the signal is aborted.
+ * 指定されたシグナルで計算を実行し、シグナルが中断された時点で拒否します。
+ * @param fn - The computation to run. / 実行する計算。
+ * @param signal - The signal to observe. / 監視するシグナル。
+ */
+const execute = <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(toCancellationError(signal));
+      return;
+    }
+    const onAbort = () => reject(toCancellationError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => signal.removeEventListener("abort", onAbort);
+
+    let promise: Promise<T>;
+    try {
+      promise = fn(signal);
+    } catch (error) {
+      promise = Promise.reject(error);
+    }
+    Promise.resolve(promise).then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+
 /**
  * Creates a new `Task` from an asynchronous computation function.
+ * The function receives the `AbortSignal` of the current run and may use it to stop its work early.
  * 非同期計算関数から新しい `Task` を作成します。
+ * 関数は現在の実行の `AbortSignal` を受け取り、それを使って処理を早期に中断できます。
  * @param fn - A function that performs the asynchronous computation. / 非同期計算を実行する関数。
  */
-const task = <T>(fn: () => Promise<T>): Task<T> => {
+const task = <T>(fn: (signal: AbortSignal) => Promise<T>): Task<T> => {
   const map = <U>(transform: (value: T) => U): Task<U> =>
-    task(() => fn().then(transform));
+    chain(self, { flatten: false, fn: transform });
   const flatMap = <U>(transform: (value: T) => Task<U>): Task<U> =>
-    task(() => fn().then((value) => transform(value).run()));
+    chain(self, { flatten: true, fn: transform });
   const apply = function <U, V>(
     this: Task<(value: U) => V>,
     taskValue: Task<U>
   ): Task<V> {
-    return task(() =>
-      this.run().then((fn) => {
+    return task((signal) =>
+      this.run(signal).then((fn) => {
         if (typeof fn !== "function") {
           return Promise.reject(new TypeError("fn is not a function"));
         }
-        return taskValue.run().then((value) => fn(value));
+        throwIfCancelled(signal);
+        return taskValue.run(signal).then((value) => fn(value));
       })
     );
   };
 
-  const run = fn;
+  const parApply = function <U, V>(
+    this: Task<(value: U) => V>,
+    taskValue: Task<U>
+  ): Task<V> {
+    return all([this, taskValue]).map(([fn, value]) => {
+      if (typeof fn !== "function") {
+        throw new TypeError("fn is not a function");
+      }
+      return fn(value);
+    });
+  };
 
-  return {
+  const delay = (ms: number): Task<T> =>
+    task((signal) => sleep(ms, signal).then(() => run(signal)));
+
+  const timeout = (ms: number): Task<T> =>
+    task(
+      (signal) =>
+        new Promise<T>((resolve, reject) => {
+          const { clock } = contextOf(signal);
+          const { controller, unlink } = linkController(signal);
+          const timer = clock.setTimeout(() => {
+            const error = new TimeoutError(ms);
+            reject(error);
+            controller.abort(error);
+          }, ms);
+          run(controller.signal)
+            .then(resolve, reject)
+            .finally(() => {
+              clock.clearTimeout(timer);
+              unlink();
+            });
+        })
+    );
+
+  const retryWith = (schedule: Schedule<unknown>): Task<T> =>
+    task((signal) => {
+      const { clock } = contextOf(signal);
+      const startedAt = clock.now();
+      const attempt = (n: number): Promise<T> =>
+        run(signal).catch((error) => {
+          if (error instanceof CancellationError) throw error;
+          const next = schedule.next(error, {
+            attempt: n,
+            elapsed: clock.now() - startedAt,
+          });
+          if (Maybe.isNothing(next)) throw error;
+          return sleep(next.getValue(), signal).then(() => attempt(n + 1));
+        });
+      return attempt(1);
+    });
+
+  const retry = (policy: RetryPolicy | Schedule<unknown> = {}): Task<T> =>
+    Schedule.isSchedule(policy) ? retryWith(policy) : retryPolicy(policy);
+
+  const retryPolicy = (policy: RetryPolicy): Task<T> =>
+    task((signal) => {
+      const { clock } = contextOf(signal);
+      const maxAttempts = policy.maxAttempts ?? 3;
+      const startedAt = clock.now();
+      const attempt = (n: number): Promise<T> => {
+        policy.onAttempt?.(n);
+        return run(signal).catch((error) => {
+          if (
+            error instanceof CancellationError ||
+            n >= maxAttempts ||
+            !(policy.shouldRetry?.(error, n) ?? true)
+          ) {
+            throw error;
+          }
+          const delay = retryDelay(policy, n);
+          const budget = policy.maxElapsed ?? Infinity;
+          if (clock.now() - startedAt + delay > budget) throw error;
+          policy.onRetry?.(error, n, delay);
+          return sleep(delay, signal).then(() => attempt(n + 1));
+        });
+      };
+      return attempt(1);
+    });
+
+  const repeat = (schedule: Schedule<T>): Task<T[]> =>
+    task((signal) => {
+      const { clock } = contextOf(signal);
+      const startedAt = clock.now();
+      const outputs: T[] = [];
+      const loop = (n: number): Promise<T[]> =>
+        run(signal).then((value) => {
+          outputs.push(value);
+          const next = schedule.next(value, {
+            attempt: n,
+            elapsed: clock.now() - startedAt,
+          });
+          return Maybe.isNothing(next)
+            ? outputs
+            : sleep(next.getValue(), signal).then(() => loop(n + 1));
+        });
+      return loop(1);
+    });
+
+  const fork = (): Task<Fiber<T>> =>
+    task((signal) => Promise.resolve(fiberOf(run, signal)));
+
+  const memoize = (): MemoizedTask<T> => {
+    const cache = cacheOf<undefined, T>((_, signal) => run(signal), {});
+    return {
+      ...task((signal) => cache.get(undefined, signal)),
+      invalidate: () => cache.invalidate(undefined),
+      refresh: () => task((signal) => cache.load(undefined, signal)),
+    };
+  };
+
+  const named = (name: string): Task<T> =>
+    task((signal) => {
+      const context = contextOf(signal);
+      const { clock, tracer, span: parent } = context;
+      const span: TraceSpan = {
+        id: nextSpanId++,
+        name,
+        parentId: parent?.id,
+        path: [...(parent?.path ?? []), name],
+        startedAt: clock.now(),
+      };
+      tracer?.onStart?.(span);
+      return runWithContext(signal, () => ({ ...context, span }), run).then(
+        (value) => {
+          tracer?.onEnd?.(span, clock.now() - span.startedAt);
+          return value;
+        },
+        (error) => {
+          addTaskTrace(error, span);
+          tracer?.onError?.(span, error, clock.now() - span.startedAt);
+          throw error;
+        }
+      );
+    });
+
+  const run = (signal: AbortSignal = new AbortController().signal) =>
+    startRun(signal, (runSignal) => execute(fn, runSignal));
+
+  const self: Task<T> = {
     isTask: true,
     map,
     flatMap,
     apply,
+    parApply,
+    delay,
+    timeout,
+    retry,
+    repeat,
+    memoize,
+    fork,
+    named,
     run,
+    toPromise: run,
     "<$>": map,
     "<*>": apply,
     ">>=": flatMap,
   };
+  return self;
+};
+
+/**
+ * A pending `map` or `flatMap` step of a `Task`.
+ * `Task` の保留中の `map` または `flatMap` のステップ。
+ */
+type Continuation = {
+  readonly flatten: boolean;
+  readonly fn: (value: any) => any;
+};
+
+const link = Symbol("link");
+
+/**
+ * A `Task` created by `chain`, linked to its source and its step.
+ * `chain` で作成された、ソースとステップに結び付けられた `Task`。
+ */
+type Linked = {
+  readonly [link]?: {
+    readonly source: Task<unknown>;
+    readonly continuation: Continuation;
+  };
+};
+
+/**
+ * Creates a `Task` that runs the source `Task` and then the given step, recording the step for `interpret`.
+ * ソース `Task` の後に指定されたステップを実行する `Task` を作成し、そのステップを `interpret` のために記録します。
+ * @param source - The `Task` to run first. / 最初に実行する `Task`。
+ * @param continuation - The step to run with its result. / その結果で実行するステップ。
+ */
+const chain = <U>(
+  source: Task<unknown>,
+  continuation: Continuation
+): Task<U> => {
+  const node: Task<U> = task((signal) => interpret(node, signal));
+  Object.defineProperty(node, link, { value: { source, continuation } });
+  return node;
+};
+
+/**
+ * Runs a chain of `map` and `flatMap` steps in a loop with an explicit stack of continuations,
+ * so neither long chains nor recursive `flatMap`s grow the call stack or nest promises.
+ * `map` と `flatMap` のステップの連鎖を、明示的な継続のスタックを使ったループで実行します。
+ * 長い連鎖や再帰的な `flatMap` でも、コールスタックが増えたり Promise が入れ子になったりしません。
+ * @param start - The `Task` to run. / 実行する `Task`。
+ * @param signal - The signal of the run. / 実行のシグナル。
+ */
+const interpret = <T>(start: Task<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const continuations: Continuation[] = [];
+    const descend = (current: Task<unknown>) => {
+      for (
+        let next = (current as Linked)[link];
+        next;
+        next = (current as Linked)[link]
+      ) {
+        continuations.push(next.continuation);
+        current = next.source;
+      }
+      current.run(signal).then(resume, reject);
+    };
+    const resume = (value: unknown) => {
+      for (;;) {
+        const continuation = continuations.pop();
+        if (!continuation) {
+          resolve(value as T);
+          return;
+        }
+        try {
+          throwIfCancelled(signal);
+          if (!continuation.flatten) {
+            value = continuation.fn(value);
+            continue;
+          }
+          descend(continuation.fn(value));
+        } catch (error) {
+          reject(error);
+        }
+        return;
+      }
+    };
+    descend(start);
+  });
+
+/**
+ * Starts a computation in the background as a `Fiber` whose signal is linked to the given parent signal.
+ * The parent stays linked to the signals above it until the fiber settles, even if its own run settles first.
+ * 指定された親シグナルに連動するシグナルで、計算を `Fiber` としてバックグラウンドで開始します。
+ * 親自身の実行が先に完了しても、ファイバーが完了するまで親はその上位のシグナルと連動したままになります。
+ * @param run - The computation to start. / 開始する計算。
+ * @param parent - The parent signal. / 親シグナル。
+ */
+const fiberOf = <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  parent: AbortSignal
+): Fiber<T> => {
+  const { controller, unlink } = forkController(parent);
+  const release = retain(parent);
+  let status: FiberStatus = "running";
+  const promise = run(controller.signal)
+    .then(
+      (value) => {
+        status = "succeeded";
+        return value;
+      },
+      (error) => {
+        status =
+          controller.signal.aborted && error instanceof CancellationError
+            ? "cancelled"
+            : "failed";
+        throw error;
+      }
+    )
+    .finally(() => {
+      unlink();
+      release();
+    });
+  const settled = promise.then(
+    () => undefined,
+    () => undefined
+  );
+
+  return {
+    isFiber: true,
+    status: () => status,
+    join: () => task(() => promise),
+    cancel: () =>
+      task(() => {
+        controller.abort(new CancellationError("Fiber was cancelled"));
+        return settled;
+      }),
+  };
+};
+
+/**
+ * Creates a cache of shared executions keyed by a value, evicting failed and expired entries.
+ * Shared executions are detached from the signals of their callers, so cancelling one caller only stops its own wait.
+ * 値をキーとした共有実行のキャッシュを作成し、失敗したエントリや期限切れのエントリを破棄します。
+ * 共有実行は呼び出し元のシグナルから切り離されているため、呼び出し元をキャンセルしてもその待機だけが停止します。
+ * @param load - Executes the computation for a key. / キーに対する計算を実行する関数。
+ * @param options - The key function and time to live. / キー関数と有効期間。
+ */
+const cacheOf = <K, T>(
+  load: (key: K, signal: AbortSignal) => Promise<T>,
+  options: { key?: (key: K) => unknown; ttl?: number }
+) => {
+  const entries = new Map<
+    unknown,
+    { promise: Promise<T>; expiresAt: number }
+  >();
+  const keyOf = options.key ?? ((key: K) => key);
+
+  const loadEntry = (key: K, signal: AbortSignal): Promise<T> => {
+    const id = keyOf(key);
+    const promise = load(key, detachedSignal(signal));
+    entries.set(id, {
+      promise,
+      expiresAt: contextOf(signal).clock.now() + (options.ttl ?? Infinity),
+    });
+    promise.catch(() => {
+      if (entries.get(id)?.promise === promise) entries.delete(id);
+    });
+    return promise;
+  };
+  const get = (key: K, signal: AbortSignal): Promise<T> => {
+    const entry = entries.get(keyOf(key));
+    return entry && contextOf(signal).clock.now() < entry.expiresAt
+      ? entry.promise
+      : loadEntry(key, signal);
+  };
+
+  return {
+    get,
+    load: loadEntry,
+    invalidate: (key: K) => entries.delete(keyOf(key)),
+    clear: () => entries.clear(),
+  };
 };
 
 /**
  * Creates a `Task` that attempts the given computation, and falls back to a recovery function on failure.
+ * Cancellation is not treated as a failure and is always propagated.
  * 指定された計算を試み、失敗時にはリカバリー関数にフォールバックする `Task` を作成します。
+ * キャンセルは失敗として扱われず、常に伝播されます。
  * @param fn - A function that performs the computation. / 計算を実行する関数。
  * @param onError - A recovery function for handling errors. / エラーを処理するリカバリー関数。
  */
 const tryCatch = <T>(
-  fn: () => T | Promise<T>,
+  fn: (signal: AbortSignal) => T | Promise<T>,
   onError: (error: any) => T | Promise<T>
 ): Task<T> =>
-  task(() =>
+  task((signal) =>
     Promise.resolve()
-      .then(() => fn())
-      .catch((error) => Promise.resolve(onError(error)))
+      .then(() => fn(signal))
+      .catch((error) => {
+        throwIfCancelled(signal);
+        return Promise.resolve(onError(error));
+      })
+  );
+
+/**
+ * Creates a `Task` that acquires a resource, uses it and always releases it afterwards.
+ * The release runs exactly once whether the use succeeds, fails or is cancelled.
+ * Acquisition is not interrupted by cancellation, so an acquired resource is never leaked.
+ * リソースを取得して使用し、その後必ず解放する `Task` を作成します。
+ * 解放は、使用が成功・失敗・キャンセルのいずれで終わっても正確に 1 回実行されます。
+ * 取得はキャンセルによって中断されないため、取得されたリソースが漏れることはありません。
+ * @param acquire - A `Task` that acquires the resource. / リソースを取得する `Task`。
+ * @param use - A function that uses the resource. / リソースを使用する関数。
+ * @param release - A function that releases the resource. / リソースを解放する関数。
+ */
+const bracket = <R, U>(
+  acquire: Task<R>,
+  use: (resource: R) => Task<U>,
+  release: (resource: R) => Task<void>
+): Task<U> =>
+  task((signal) =>
+    acquire.run(detachedSignal(signal)).then((resource) => {
+      const releaseResource = () =>
+        Promise.resolve().then(() =>
+          release(resource).run(detachedSignal(signal))
+        );
+      return Promise.resolve()
+        .then(() => {
+          throwIfCancelled(signal);
+          return use(resource).run(signal);
+        })
+        .then(
+          (value) => releaseResource().then(() => value),
+          (error) =>
+            releaseResource().then(
+              () => Promise.reject(error),
+              () => Promise.reject(error)
+            )
+        );
+    })
   );
 
 /**
@@ -119,9 +1180,154 @@ const tryCatch = <T>(
  * 指定された計算を実行し、発生したエラーを伝播する `Task` を作成します。
  * @param fn - A function that performs the computation. / 計算を実行する関数。
  */
-const tryTask = <T>(fn: () => T | Promise<T>): Task<T> =>
+const tryTask = <T>(fn: (signal: AbortSignal) => T | Promise<T>): Task<T> =>
   tryCatch(fn, (error) => Promise.reject(error));
 
+/**
+ * Creates a `Task` from a function returning a `Promise`, calling it on every run.
+ * The work starts only when the `Task` runs, so the `Task` stays lazy and rerunnable.
+ * `Promise` を返す関数から `Task` を作成し、実行のたびに関数を呼び出します。
+ * 処理は `Task` の実行時にのみ開始されるため、`Task` は遅延評価され、再実行可能なままです。
+ * @param factory - A function that starts the work and returns its `Promise`. / 処理を開始し、その `Promise` を返す関数。
+ */
+const fromPromiseFactory = <T>(
+  factory: (signal: AbortSignal) => PromiseLike<T>
+): Task<T> => task((signal) => Promise.resolve(factory(signal)));
+
+/**
+ * Creates a `Task` that waits for a `Promise` whose work has already started.
+ * Every run waits for the same `Promise`, and cancelling a run only stops its wait, not the work.
+ * Use `fromPromiseFactory` to start the work on each run instead.
+ * 処理がすでに開始されている `Promise` を待機する `Task` を作成します。
+ * すべての実行は同じ `Promise` を待機し、実行をキャンセルしても待機が止まるだけで、処理は止まりません。
+ * 実行のたびに処理を開始するには `fromPromiseFactory` を使用します。
+ * @param promise - The running `Promise`. / 実行中の `Promise`。
+ */
+const fromPromise = <T>(promise: PromiseLike<T>): Task<T> =>
+  task(() => Promise.resolve(promise));
+
+/**
+ * Makes a `Task` awaitable, running it each time it is awaited or its `then` is called.
+ * Transforming it with `map` or `flatMap` returns a plain `Task` that stays lazy until it runs.
+ * Tasks are not thenable by default because `Promise`s would otherwise run them as soon as they are resolved with one,
+ * which also applies to the returned `Task`: see `ThenableTask`.
+ * `Task` を `await` できるようにし、`await` されるたび、または `then` が呼ばれるたびに実行します。
+ * `map` や `flatMap` で変換すると、実行されるまで遅延されたままの通常の `Task` が返されます。
+ * `Task` がデフォルトで thenable でないのは、`Promise` で解決された時点で実行されてしまうためであり、
+ * これは返される `Task` にも当てはまります（`ThenableTask` を参照）。
+ * @param inner - The `Task` to make awaitable. / `await` できるようにする `Task`。
+ */
+const thenable = <T>(inner: Task<T>): ThenableTask<T> => ({
+  ...inner,
+  then: (onFulfilled, onRejected) => inner.run().then(onFulfilled, onRejected),
+});
+
+/**
+ * Creates a `Task` from a function that reports its result through a Node-style callback.
+ * The function is called on every run, and only the first call of the callback counts.
+ * Node 形式のコールバックで結果を通知する関数から `Task` を作成します。
+ * 関数は実行のたびに呼び出され、コールバックの最初の呼び出しのみが有効です。
+ * @param fn - A function that starts the work and calls the callback. / 処理を開始し、コールバックを呼び出す関数。
+ */
+const fromCallback = <T>(
+  fn: (callback: NodeCallback<T>, signal: AbortSignal) => void
+): Task<T> =>
+  task(
+    (signal) =>
+      new Promise<T>((resolve, reject) =>
+        fn((error, value) => {
+          if (error !== null && error !== undefined) {
+            reject(error);
+          } else {
+            resolve(value as T);
+          }
+        }, signal)
+      )
+  );
+
+/**
+ * Creates a `Task` that waits for the next occurrence of an event and resolves with its payload.
+ * Listeners are added on every run and removed once the `Task` settles or is cancelled.
+ * イベントの次の発生を待ち、そのペイロードで解決する `Task` を作成します。
+ * リスナーは実行のたびに追加され、`Task` の完了時またはキャンセル時に削除されます。
+ * @param emitter - The object emitting the event. / イベントを発行するオブジェクト。
+ * @param name - The name of the event. / イベントの名前。
+ * @param options - The options for the event. / イベントのオプション。
+ */
+const fromEvent = <T = unknown>(
+  emitter: EventEmitterLike,
+  name: string,
+  options: FromEventOptions = {}
+): Task<T> =>
+  task(
+    (signal) =>
+      new Promise<T>((resolve, reject) => {
+        const listen = (event: string, listener: (value: any) => void) => {
+          if ("on" in emitter) {
+            emitter.on(event, listener);
+            return () => emitter.off(event, listener);
+          }
+          emitter.addEventListener(event, listener);
+          return () => emitter.removeEventListener(event, listener);
+        };
+        const cleanup = () => {
+          unlisten.forEach((remove) => remove());
+          signal.removeEventListener("abort", cleanup);
+        };
+        const unlisten = [
+          listen(name, (value: T) => {
+            cleanup();
+            resolve(value);
+          }),
+          ...(options.errorEvent === undefined
+            ? []
+            : [
+                listen(options.errorEvent, (error: unknown) => {
+                  cleanup();
+                  reject(error);
+                }),
+              ]),
+        ];
+        signal.addEventListener("abort", cleanup, { once: true });
+      })
+  );
+
+/**
+ * Converts a function taking a Node-style callback as its last argument into a function returning a `Task`.
+ * The returned function does nothing until its `Task` is run.
+ * 最後の引数として Node 形式のコールバックを受け取る関数を、`Task` を返す関数に変換します。
+ * 返された関数は、その `Task` が実行されるまで何も行いません。
+ * @param fn - The function to convert. / 変換する関数。
+ */
+const promisify = <F extends (...args: any[]) => unknown>(
+  fn: F
+): Promisified<F> =>
+  ((...args: unknown[]) =>
+    fromCallback((callback) => {
+      fn(...args, callback);
+    })) as Promisified<F>;
+
+/**
+ * Converts a function returning a `Task` into a function taking a Node-style callback as its last argument.
+ * The returned function runs the `Task` immediately and returns a function that cancels it.
+ * `Task` を返す関数を、最後の引数として Node 形式のコールバックを受け取る関数に変換します。
+ * 返された関数は `Task` を即座に実行し、それをキャンセルする関数を返します。
+ * @param fn - The function to convert. / 変換する関数。
+ */
+const toCallback =
+  <A extends unknown[], T>(fn: (...args: A) => Task<T>) =>
+  (...args: [...A, NodeCallback<T>]): (() => void) => {
+    const callback = args.pop() as NodeCallback<T>;
+    const controller = new AbortController();
+    fn(...(args as unknown as A))
+      .run(controller.signal)
+      .then(
+        (value) => callback(null, value),
+        (error) => callback(error)
+      );
+    return () => controller.abort();
+  };
+
 /**
  * Lifts a value into a `Task`, which resolves immediately with the value.
  * 値を `Task` に持ち上げ、即座にその値で解決される `Task` を返します。
@@ -129,6 +1335,628 @@ const tryTask = <T>(fn: () => T | Promise<T>): Task<T> =>
  */
 const lift = <T>(value: T): Task<T> => task(() => Promise.resolve(value));
 
+/**
+ * Creates a `Task` that runs a step function repeatedly without growing the call stack, until it returns a `Right`.
+ * A `Left` carries the state of the next step, and a `Right` carries the final value.
+ * `Right` を返すまで、コールスタックを増やさずにステップ関数を繰り返し実行する `Task` を作成します。
+ * `Left` は次のステップの状態を、`Right` は最終的な値を表します。
+ * @param initial - The initial state. / 初期状態。
+ * @param fn - A function returning a `Task` of the next step. / 次のステップの `Task` を返す関数。
+ */
+const tailRecM = <A, B>(
+  initial: A,
+  fn: (state: A) => Task<Either<A, B>>
+): Task<B> => {
+  const go = (state: A): Task<B> =>
+    fn(state).flatMap((step) => step.match(go, lift));
+  return lift(initial).flatMap(go);
+};
+
+/**
+ * Runs the given tasks concurrently, each with its own signal linked to the parent signal.
+ * Once `onSettled` returns `true` for an outcome, every task that is still running is cancelled.
+ * 指定されたタスクを、親シグナルに連動したそれぞれのシグナルで並行実行します。
+ * `onSettled` がある結果に対して `true` を返すと、実行中のタスクはすべてキャンセルされます。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ * @param signal - The parent signal. / 親シグナル。
+ * @param onSettled - Called with the outcome of each task; returns whether to stop the others.
+ *                    各タスクの結果を受け取り、他のタスクを停止するかどうかを返す関数。
+ */
+const runConcurrently = <T>(
+  tasks: readonly Task<T>[],
+  signal: AbortSignal,
+  onSettled: (index: number, outcome: PromiseSettledResult<T>) => boolean
+): void => {
+  const links = tasks.map(() => forkController(signal));
+  const stop = () =>
+    links.forEach(({ controller, unlink }) => {
+      unlink();
+      controller.abort(new CancellationError("Task is no longer needed"));
+    });
+  tasks.forEach((task, index) =>
+    task
+      .run(links[index].controller.signal)
+      .finally(links[index].unlink)
+      .then(
+        (value) => {
+          if (onSettled(index, { status: "fulfilled", value })) stop();
+        },
+        (reason) => {
+          if (onSettled(index, { status: "rejected", reason })) stop();
+        }
+      )
+  );
+};
+
+/**
+ * Creates a `Task` that settles with the first of the given tasks to settle, cancelling the others.
+ * 指定されたタスクのうち最初に完了したものの結果で完了し、残りをキャンセルする `Task` を作成します。
+ * @param tasks - The tasks to race. / 競争させるタスク。
+ */
+const race = <T extends readonly Task<unknown>[]>(
+  tasks: T
+): Task<TaskValue<T[number]>> =>
+  task(
+    (signal) =>
+      new Promise((resolve, reject) => {
+        if (tasks.length === 0) {
+          reject(new RangeError("Task.race requires at least one task"));
+          return;
+        }
+        runConcurrently(
+          tasks as readonly Task<TaskValue<T[number]>>[],
+          signal,
+          (_, outcome) => {
+            if (outcome.status === "fulfilled") {
+              resolve(outcome.value);
+            } else {
+              reject(outcome.reason);
+            }
+            return true;
+          }
+        );
+      })
+  );
+
+/**
+ * Creates a `Task` that resolves with the first of the given tasks to succeed, cancelling the others.
+ * Fails with a `TaskAggregateError` when every task fails.
+ * 指定されたタスクのうち最初に成功したものの値で解決し、残りをキャンセルする `Task` を作成します。
+ * すべてのタスクが失敗した場合は `TaskAggregateError` で失敗します。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ */
+const any = <T extends readonly Task<unknown>[]>(
+  tasks: T
+): Task<TaskValue<T[number]>> =>
+  task(
+    (signal) =>
+      new Promise((resolve, reject) => {
+        const errors: unknown[] = new Array(tasks.length);
+        let remaining = tasks.length;
+        if (remaining === 0) {
+          reject(new TaskAggregateError(errors));
+          return;
+        }
+        runConcurrently(
+          tasks as readonly Task<TaskValue<T[number]>>[],
+          signal,
+          (index, outcome) => {
+            if (outcome.status === "fulfilled") {
+              resolve(outcome.value);
+              return true;
+            }
+            errors[index] = outcome.reason;
+            remaining -= 1;
+            if (remaining === 0) reject(new TaskAggregateError(errors));
+            return false;
+          }
+        );
+      })
+  );
+
+/**
+ * Maps each item to a `Task` and runs them with a bounded worker pool, collecting the results in order.
+ * Fails fast with the first error; the tasks still running are cancelled unless `cancelOnFailure` is `false`.
+ * With `collectErrors`, every task runs to completion and all the errors are reported together.
+ * 各要素を `Task` に変換し、上限付きのワーカープールで実行して結果を順番通りに集めます。
+ * 最初のエラーで即座に失敗し、`cancelOnFailure` が `false` でない限り実行中のタスクはキャンセルされます。
+ * `collectErrors` を指定すると、すべてのタスクが最後まで実行され、すべてのエラーがまとめて報告されます。
+ * @param items - The items to traverse. / 走査する要素。
+ * @param fn - A function that returns a `Task` for each item. / 各要素に対して `Task` を返す関数。
+ * @param options - Concurrency options. / 並行実行のオプション。
+ */
+const traverse = <A, B>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Task<B>,
+  options: ConcurrencyOptions = {}
+): Task<B[]> =>
+  task(
+    (signal) =>
+      new Promise<B[]>((resolve, reject) => {
+        const limit = options.concurrency ?? Infinity;
+        if (!(limit === Infinity || (Number.isInteger(limit) && limit > 0))) {
+          reject(
+            new RangeError(
+              `concurrency must be a positive integer, but received ${limit}`
+            )
+          );
+          return;
+        }
+        const results: B[] = new Array(items.length);
+        const { controller, unlink } = linkController(signal);
+        const errors = new Map<number, unknown>();
+        const report = contextOf(signal).progress;
+        const fractions: number[] = new Array(items.length).fill(0);
+        const progress = (index: number, value: number) => {
+          fractions[index] = value;
+          report?.(fractions.reduce((a, b) => a + b, 0) / items.length);
+        };
+        let next = 0;
+        let running = 0;
+        let completed = 0;
+        let failed = false;
+
+        const settle = () => {
+          completed += 1;
+          if (completed < items.length) {
+            launch();
+          } else if (errors.size > 0) {
+            unlink();
+            const ordered = [...errors].sort(([a], [b]) => a - b);
+            reject(
+              new TaskAggregateError(
+                ordered.map(([, error]) => error),
+                "Some tasks failed"
+              )
+            );
+          } else {
+            unlink();
+            resolve(results);
+          }
+        };
+        const fail = (error: unknown, index: number) => {
+          if (options.collectErrors && !signal.aborted) {
+            errors.set(index, error);
+            settle();
+            return;
+          }
+          if (failed) return;
+          failed = true;
+          if (options.cancelOnFailure ?? true) {
+            unlink();
+            controller.abort(new CancellationError("A sibling task failed"));
+          } else if (running === 0) {
+            unlink();
+          }
+          reject(error);
+        };
+        const launch = () => {
+          if (failed || next >= items.length) return;
+          const index = next++;
+          const child = forkController(controller.signal);
+          running += 1;
+          if (report) {
+            setContext(child.controller.signal, {
+              ...contextOf(child.controller.signal),
+              progress: (value) => progress(index, value),
+            });
+          }
+          Promise.resolve()
+            .then(() => fn(items[index], index).run(child.controller.signal))
+            .finally(() => {
+              child.unlink();
+              running -= 1;
+              // Siblings left running after a failure stay linked until the last one settles.
+              if (failed && running === 0) unlink();
+            })
+            .then(
+              (value) => {
+                results[index] = value;
+                if (report) progress(index, 1);
+                settle();
+              },
+              (error) => fail(error, index)
+            );
+        };
+
+        if (items.length === 0) {
+          unlink();
+          resolve(results);
+          return;
+        }
+        for (let i = 0; i < Math.min(limit, items.length); i++) launch();
+      })
+  );
+
+/**
+ * Runs the given tasks concurrently and collects their results in order.
+ * 指定されたタスクを並行実行し、結果を順番通りに集めます。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ * @param options - Concurrency options. / 並行実行のオプション。
+ */
+const all = <T extends readonly Task<unknown>[]>(
+  tasks: readonly [...T],
+  options?: ConcurrencyOptions
+): Task<{ -readonly [K in keyof T]: TaskValue<T[K]> }> =>
+  traverse(tasks, (task) => task, options) as Task<{
+    -readonly [K in keyof T]: TaskValue<T[K]>;
+  }>;
+
+/**
+ * Converts the outcome of a `Task` into an `Either`, keeping the cancellation of the run as a failure.
+ * `Task` の結果を `Either` に変換します。実行自体のキャンセルは失敗のまま伝播します。
+ * @param inner - The `Task` to run. / 実行する `Task`。
+ */
+const settled = <T>(inner: Task<T>): Task<Either<unknown, T>> =>
+  task((signal) =>
+    inner.run(signal).then(
+      (value) => Either.right<unknown, T>(value),
+      (error) => {
+        throwIfCancelled(signal);
+        return Either.left<unknown, T>(error);
+      }
+    )
+  );
+
+/**
+ * Runs the given tasks concurrently and collects every outcome in order, as `Right` values for successes and `Left` values for failures.
+ * 指定されたタスクを並行実行し、成功を `Right`、失敗を `Left` として、すべての結果を順番通りに集めます。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ * @param options - Concurrency options. / 並行実行のオプション。
+ */
+const allSettled = <T extends readonly Task<unknown>[]>(
+  tasks: readonly [...T],
+  options?: Pick<ConcurrencyOptions, "concurrency">
+): Task<{ -readonly [K in keyof T]: Either<unknown, TaskValue<T[K]>> }> =>
+  traverse(tasks, settled, options) as Task<{
+    -readonly [K in keyof T]: Either<unknown, TaskValue<T[K]>>;
+  }>;
+
+/**
+ * Runs the given tasks concurrently and splits their outcomes into successes and failures.
+ * 指定されたタスクを並行実行し、結果を成功と失敗に分けます。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ * @param options - Concurrency options. / 並行実行のオプション。
+ */
+const partition = <T>(
+  tasks: readonly Task<T>[],
+  options?: Pick<ConcurrencyOptions, "concurrency">
+): Task<Partitioned<T>> =>
+  traverse(tasks, settled, options).map((outcomes) =>
+    outcomes.reduce<Partitioned<T>>(
+      (result, outcome) => {
+        outcome.match(
+          (error) => result.failures.push(error),
+          (value) => result.successes.push(value)
+        );
+        return result;
+      },
+      { successes: [], failures: [] }
+    )
+  );
+
+/**
+ * Runs the tasks of a record concurrently and collects their results under the same keys.
+ * レコード内のタスクを並行実行し、結果を同じキーで集めます。
+ * @param tasks - A record of tasks to run. / 実行するタスクのレコード。
+ * @param options - Concurrency options. / 並行実行のオプション。
+ */
+const allRecord = <T extends Record<string, Task<unknown>>>(
+  tasks: T,
+  options?: ConcurrencyOptions
+): Task<{ [K in keyof T]: TaskValue<T[K]> }> => {
+  const keys = Object.keys(tasks);
+  return traverse(keys, (key) => tasks[key], options).map(
+    (values) =>
+      Object.fromEntries(keys.map((key, i) => [key, values[i]])) as {
+        [K in keyof T]: TaskValue<T[K]>;
+      }
+  );
+};
+
+/**
+ * Runs the given tasks concurrently and combines their results into a tuple.
+ * 指定されたタスクを並行実行し、結果をタプルにまとめます。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ */
+const zipPar = <T extends readonly Task<unknown>[]>(
+  ...tasks: T
+): Task<{ -readonly [K in keyof T]: TaskValue<T[K]> }> => all<T>(tasks);
+
+/**
+ * Runs the given tasks concurrently and combines their results with the given function.
+ * 指定されたタスクを並行実行し、結果を指定された関数で結合します。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ * @param fn - A function that combines the results. / 結果を結合する関数。
+ */
+const mapN = <T extends readonly Task<unknown>[], R>(
+  tasks: readonly [...T],
+  fn: (...values: { -readonly [K in keyof T]: TaskValue<T[K]> }) => R
+): Task<R> => all(tasks).map((values) => fn(...values));
+
+/**
+ * Runs the given tasks one after another and collects their results in order.
+ * Pass a `concurrency` option to run several of them at once.
+ * 指定されたタスクを順番に実行し、結果を順番通りに集めます。
+ * `concurrency` オプションを指定すると複数を同時に実行します。
+ * @param tasks - The tasks to run. / 実行するタスク。
+ * @param options - Concurrency options. / 並行実行のオプション。
+ */
+const sequence = <T>(
+  tasks: readonly Task<T>[],
+  options?: ConcurrencyOptions
+): Task<T[]> => traverse(tasks, (task) => task, { concurrency: 1, ...options });
+
+/**
+ * Wraps a function returning `Task`s so that results are cached by its arguments.
+ * Failed runs are not cached, and entries expire after the optional time to live.
+ * `Task` を返す関数をラップし、結果を引数ごとにキャッシュします。
+ * 失敗した実行はキャッシュされず、エントリは任意の有効期間の経過後に期限切れになります。
+ * @param fn - A function returning a `Task`. / `Task` を返す関数。
+ * @param options - Cache options. / キャッシュのオプション。
+ */
+const cached = <A extends unknown[], T>(
+  fn: (...args: A) => Task<T>,
+  options: CacheOptions<A> = {}
+): CachedTaskFn<A, T> => {
+  const cache = cacheOf<A, T>((args, signal) => fn(...args).run(signal), {
+    key: (args) => (options.key ?? ((...xs: A) => JSON.stringify(xs)))(...args),
+    ttl: options.ttl,
+  });
+  return Object.assign(
+    (...args: A) => task((signal) => cache.get(args, signal)),
+    {
+      invalidate: (...args: A) => {
+        cache.invalidate(args);
+      },
+      clear: cache.clear,
+      refresh: (...args: A) => task((signal) => cache.load(args, signal)),
+    }
+  );
+};
+
+/**
+ * Wraps a function returning `Task`s so that a new run cancels the previous run that is still in flight.
+ * Only the latest run can succeed; the stale ones fail with a `CancellationError`.
+ * `Task` を返す関数をラップし、新しい実行がまだ実行中の以前の実行をキャンセルするようにします。
+ * 最新の実行のみが成功でき、古い実行は `CancellationError` で失敗します。
+ * @param fn - A function returning a `Task`. / `Task` を返す関数。
+ */
+const takeLatest = <A extends unknown[], T>(
+  fn: (...args: A) => Task<T>
+): ((...args: A) => Task<T>) => {
+  let current: AbortController | undefined;
+  return (...args: A) =>
+    task((signal) => {
+      current?.abort(new CancellationError("Superseded by a later run"));
+      const { controller, unlink } = linkController(signal);
+      current = controller;
+      return fn(...args)
+        .run(controller.signal)
+        .finally(() => {
+          unlink();
+          if (current === controller) current = undefined;
+        });
+    });
+};
+
+/**
+ * Wraps a function returning `Task`s so that a run starts its work only after no newer run has started for the given time.
+ * A newer run cancels the previous one, whether it is still waiting or already running.
+ * `Task` を返す関数をラップし、指定時間のあいだ新しい実行が開始されなかった場合にのみ処理を開始するようにします。
+ * 新しい実行は、待機中か実行中かにかかわらず以前の実行をキャンセルします。
+ * @param fn - A function returning a `Task`. / `Task` を返す関数。
+ * @param ms - The quiet time in milliseconds. / ミリ秒単位の待機時間。
+ */
+const debounce = <A extends unknown[], T>(
+  fn: (...args: A) => Task<T>,
+  ms: number
+): ((...args: A) => Task<T>) =>
+  takeLatest((...args: A) => fn(...args).delay(ms));
+
+/**
+ * Wraps a function returning `Task`s so that it starts at most once in the given time for each key.
+ * Runs with the same key within the time after a start share its result; a failed run is not shared further.
+ * `Task` を返す関数をラップし、キーごとに指定時間内に最大 1 回だけ開始されるようにします。
+ * 開始後の指定時間内に同じキーで行われた実行は、その結果を共有します。失敗した実行はそれ以上共有されません。
+ * @param fn - A function returning a `Task`. / `Task` を返す関数。
+ * @param ms - The interval in milliseconds. / ミリ秒単位の間隔。
+ * @param options - The key function. / キー関数。
+ */
+const throttle = <A extends unknown[], T>(
+  fn: (...args: A) => Task<T>,
+  ms: number,
+  options: Pick<CacheOptions<A>, "key"> = {}
+): ((...args: A) => Task<T>) => {
+  const started = new Map<
+    unknown,
+    { promise: Promise<T>; startedAt: number }
+  >();
+  const keyOf = options.key ?? ((...args: A) => JSON.stringify(args));
+  return (...args: A) =>
+    task((signal) => {
+      const id = keyOf(...args);
+      const now = contextOf(signal).clock.now();
+      started.forEach((entry, key) => {
+        if (now - entry.startedAt >= ms) started.delete(key);
+      });
+      const existing = started.get(id);
+      if (existing) return existing.promise;
+      const promise = fn(...args).run(detachedSignal(signal));
+      started.set(id, { promise, startedAt: now });
+      promise.catch(() => {
+        if (started.get(id)?.promise === promise) started.delete(id);
+      });
+      return promise;
+    });
+};
+
+/**
+ * Wraps a function returning `Task`s so that concurrent runs with the same key share a single execution.
+ * The shared execution is detached from the signals of its callers, and nothing is kept once it settles.
+ * `Task` を返す関数をラップし、同じキーを持つ同時実行が 1 つの実行を共有するようにします。
+ * 共有実行は呼び出し元のシグナルから切り離されており、完了後は何も保持されません。
+ * @param fn - A function returning a `Task`. / `Task` を返す関数。
+ * @param options - The key function. / キー関数。
+ */
+const dedupe = <A extends unknown[], T>(
+  fn: (...args: A) => Task<T>,
+  options: Pick<CacheOptions<A>, "key"> = {}
+): ((...args: A) => Task<T>) => {
+  const inFlight = new Map<unknown, Promise<T>>();
+  const keyOf = options.key ?? ((...args: A) => JSON.stringify(args));
+  return (...args: A) =>
+    task((signal) => {
+      const id = keyOf(...args);
+      const existing = inFlight.get(id);
+      if (existing) return existing;
+      const promise = fn(...args)
+        .run(detachedSignal(signal))
+        .finally(() => inFlight.delete(id));
+      inFlight.set(id, promise);
+      return promise;
+    });
+};
+
+/**
+ * Creates a `Task` that runs the given body within a scope supervising the fibers forked through it.
+ * When the body succeeds, the scope waits for (or cancels) its running children before resolving.
+ * When the body fails or is cancelled, the children are cancelled before the failure is propagated.
+ * Failures of child fibers do not fail the scope; observe them with `join`.
+ * スコープを通じてフォークされたファイバーを監督するスコープ内で、指定された本体を実行する `Task` を作成します。
+ * 本体が成功すると、スコープは実行中の子ファイバーを待機（またはキャンセル）してから解決します。
+ * 本体が失敗またはキャンセルされると、子ファイバーをキャンセルしてから失敗を伝播します。
+ * 子ファイバーの失敗はスコープを失敗させません。`join` で確認してください。
+ * @param body - A function that returns the `Task` to run within the scope. / スコープ内で実行する `Task` を返す関数。
+ * @param options - Scope options. / スコープのオプション。
+ */
+const scope = <T>(
+  body: (scope: Scope) => Task<T>,
+  options: ScopeOptions = {}
+): Task<T> =>
+  task((signal) => {
+    const { controller, unlink } = linkController(signal);
+    const children: Fiber<unknown>[] = [];
+    const awaitChildren = (): Promise<void> => {
+      const count = children.length;
+      return Promise.all(
+        children.map((child) =>
+          child
+            .join()
+            .run()
+            .catch(() => undefined)
+        )
+      ).then(() => (children.length > count ? awaitChildren() : undefined));
+    };
+    const cancelChildren = () => {
+      controller.abort(new CancellationError("Scope has exited"));
+      return awaitChildren();
+    };
+    const fork = <U>(child: Task<U>): Task<Fiber<U>> =>
+      task(() => {
+        const fiber = fiberOf(child.run, controller.signal);
+        children.push(fiber);
+        return Promise.resolve(fiber);
+      });
+
+    return Promise.resolve()
+      .then(() => body({ fork }).run(controller.signal))
+      .then(
+        (value) =>
+          (options.onExit === "cancel"
+            ? cancelChildren()
+            : awaitChildren()
+          ).then(() => value),
+        (error) => cancelChildren().then(() => Promise.reject(error))
+      )
+      .finally(unlink);
+  });
+
+/**
+ * Creates a `Task` from an asynchronous computation that reports its progress as a number between `0` and `1`.
+ * The progress is complete once the computation succeeds.
+ * `0` から `1` の間の数値で進捗を報告する非同期計算から `Task` を作成します。
+ * 計算が成功した時点で進捗は完了になります。
+ * @param fn - A function that performs the computation and reports its progress. / 計算を実行し、進捗を報告する関数。
+ */
+const fromProgress = <T>(
+  fn: (report: (progress: number) => void, signal: AbortSignal) => Promise<T>
+): Task<T> =>
+  task((signal) => {
+    const report = contextOf(signal).progress;
+    return fn(
+      (progress) => report?.(Math.min(1, Math.max(0, progress))),
+      signal
+    ).then((value) => {
+      report?.(1);
+      return value;
+    });
+  });
+
+/**
+ * Makes the progress of a `Task` observable through an `RBox`.
+ * The progress of `Task.all`, `Task.traverse` and the related functions is the average progress of their children,
+ * and a child without its own reports counts as done once it succeeds.
+ * `Task` の進捗を `RBox` で監視できるようにします。
+ * `Task.all`、`Task.traverse` などの進捗は子の進捗の平均であり、進捗を報告しない子は成功した時点で完了とみなされます。
+ * @param inner - The `Task` to track. / 進捗を追跡する `Task`。
+ */
+const trackProgress = <T>(inner: Task<T>): TrackedTask<T> => {
+  const progress = RBox.pack(0);
+  return {
+    ...task((signal) => {
+      const parent = contextOf(signal).progress;
+      const update = (value: number) => {
+        if (value !== progress.getValue()) progress.setValue(value);
+        parent?.(value);
+      };
+      update(0);
+      return runWithContext(
+        signal,
+        (context) => ({ ...context, progress: update }),
+        inner.run
+      ).then((value) => {
+        update(1);
+        return value;
+      });
+    }),
+    progress,
+  };
+};
+
+/**
+ * Creates a `Task` that resolves after the given time, measured by the clock of the run.
+ * 実行のクロックで計測して、指定時間の経過後に解決する `Task` を作成します。
+ * @param ms - The time to wait in milliseconds. / ミリ秒単位の待機時間。
+ */
+const sleepTask = (ms: number): Task<void> =>
+  task((signal) => sleep(ms, signal));
+
+/**
+ * Creates a `Task` that resolves with the current time of the clock of the run.
+ * 実行のクロックの現在時刻で解決する `Task` を作成します。
+ */
+const now = (): Task<number> =>
+  task((signal) => Promise.resolve(contextOf(signal).clock.now()));
+
+/**
+ * Creates a `Task` that runs the given `Task` with the given clock for every time-based operation.
+ * 指定された `Task` を、時間に関するすべての操作で指定されたクロックを使って実行する `Task` を作成します。
+ * @param clock - The clock to use. / 使用するクロック。
+ * @param task - The `Task` to run. / 実行する `Task`。
+ */
+const withClock = <T>(clock: Clock, task: Task<T>): Task<T> =>
+  withContext(task, (context) => ({ ...context, clock }));
+
+/**
+ * Creates a `Task` that runs the given `Task` and reports its named `Task`s to the given tracer.
+ * 指定された `Task` を実行し、その中の名前付き `Task` を指定されたトレーサーに報告する `Task` を作成します。
+ * @param tracer - The tracer to report to. / 報告先のトレーサー。
+ * @param task - The `Task` to run. / 実行する `Task`。
+ */
+const withTracer = <T>(tracer: Tracer, task: Task<T>): Task<T> =>
+  withContext(task, (context) => ({ ...context, tracer }));
+
 /**
  * Checks if the given value is a `Task`.
  * 指定された値が `Task` かどうかを判定します。
@@ -138,7 +1966,11 @@ const isTask = <T>(value: any): value is Task<T> => value?.isTask === true;
 
 /**
  * Enables a "do notation" for Task, allowing for sequential composition of Task operations.
+ * The generator is started on every run and driven in a loop, so long-running loops do not grow the call stack.
+ * A failure of a yielded `Task` is thrown at its `yield`, and cancellation returns from the generator so that its `finally` blocks run.
  * Task に対して「do 記法」を提供し、Task の操作を逐次的に記述できるようにします。
+ * ジェネレータは実行のたびに開始されてループで駆動されるため、長く続くループでもコールスタックが増えません。
+ * `yield` した `Task` の失敗はその `yield` でスローされ、キャンセル時はジェネレータから戻るため `finally` ブロックが実行されます。
  *
  * @param generatorFunc - A generator function yielding Task values.
  *                        Task の値を `yield` するジェネレータ関数。
@@ -148,17 +1980,34 @@ const isTask = <T>(value: any): value is Task<T> => value?.isTask === true;
 function Do<T, U>(
   generatorFunc: () => Generator<Task<T>, U | Task<U>, T>
 ): Task<U> {
-  const iterator = generatorFunc();
-  function step(value?: T): Task<U> {
-    const { value: result, done } = iterator.next(value as T);
-    return done
-      ? Task.isTask(result)
-        ? (result as Task<U>)
-        : Task.pack<U>(result as U)
-      : result[">>="](step);
-  }
-
-  return step(undefined as never);
+  return task(
+    (signal) =>
+      new Promise<U>((resolve, reject) => {
+        const iterator = generatorFunc();
+        const resume = (next: () => IteratorResult<Task<T>, U | Task<U>>) => {
+          try {
+            if (signal.aborted) {
+              iterator.return(undefined as never);
+              throwIfCancelled(signal);
+            }
+            const { value: result, done } = next();
+            if (!done) {
+              result.run(signal).then(
+                (value) => resume(() => iterator.next(value)),
+                (error) => resume(() => iterator.throw(error))
+              );
+            } else if (Task.isTask(result)) {
+              (result as Task<U>).run(signal).then(resolve, reject);
+            } else {
+              resolve(result as U);
+            }
+          } catch (error) {
+            reject(error);
+          }
+        };
+        resume(() => iterator.next(undefined as never));
+      })
+  );
 }
 
 /**
@@ -169,7 +2018,39 @@ export const Task = {
   do: Do,
   from: task,
   pack: lift,
+  tailRecM,
+  loop: tailRecM,
   tryCatch,
   tryTask,
+  fromPromise,
+  fromPromiseFactory,
+  thenable,
+  fromCallback,
+  fromEvent,
+  fromProgress,
+  trackProgress,
+  promisify,
+  toCallback,
+  bracket,
+  race,
+  any,
+  all,
+  allSettled,
+  partition,
+  allRecord,
+  traverse,
+  sequence,
+  zipPar,
+  mapN,
+  cached,
+  dedupe,
+  debounce,
+  throttle,
+  takeLatest,
+  scope,
+  sleep: sleepTask,
+  now,
+  withClock,
+  withTracer,
   isTask,
 } as const;
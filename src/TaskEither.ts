@@ -0,0 +1,315 @@
+import { Either } from "./Either";
+import { Task } from "./Task";
+
+/**
+ * Represents an asynchronous computation that either fails with an error of type `E` or succeeds with a value of type `A`.
+ * 型 `E` のエラーで失敗するか、型 `A` の値で成功する非同期の計算を表します。
+ */
+export type TaskEither<E, A> = {
+  readonly isTaskEither: true; // Identifies the object as a `TaskEither`. / オブジェクトが `TaskEither` であることを識別。
+
+  /**
+   * Transforms the success value using the provided function and returns a new `TaskEither`.
+   * 成功値を指定された関数で変換し、新しい `TaskEither` を返します。
+   * @param fn - A function to transform the success value. / 成功値を変換する関数。
+   */
+  readonly map: <B>(fn: (value: A) => B) => TaskEither<E, B>;
+
+  /**
+   * Transforms the success value using the provided function and returns a new `TaskEither`.
+   * Alias for `map`.
+   * 成功値を指定された関数で変換し、新しい `TaskEither` を返します。
+   * `map` のエイリアス。
+   * @param fn - A function to transform the success value. / 成功値を変換する関数。
+   */
+  readonly "<$>": <B>(fn: (value: A) => B) => TaskEither<E, B>;
+
+  /**
+   * Transforms the error using the provided function and returns a new `TaskEither`.
+   * エラーを指定された関数で変換し、新しい `TaskEither` を返します。
+   * @param fn - A function to transform the error. / エラーを変換する関数。
+   */
+  readonly mapLeft: <E2>(fn: (error: E) => E2) => TaskEither<E2, A>;
+
+  /**
+   * Applies a `TaskEither` that contains a function to a `TaskEither` that contains a value.
+   * 関数を含む `TaskEither` を値を含む別の `TaskEither` に適用します。
+   * @param taskValue - A `TaskEither` containing the value. / 値を含む `TaskEither`。
+   */
+  readonly apply: <E2, U, V>(
+    this: TaskEither<E, (value: U) => V>,
+    taskValue: TaskEither<E2, U>
+  ) => TaskEither<E | E2, V>;
+
+  /**
+   * Applies a `TaskEither` that contains a function to a `TaskEither` that contains a value.
+   * Alias for `apply`.
+   * 関数を含む `TaskEither` を値を含む別の `TaskEither` に適用します。
+   * `apply` のエイリアス。
+   * @param taskValue - A `TaskEither` containing the value. / 値を含む `TaskEither`。
+   */
+  readonly "<*>": <E2, U, V>(
+    this: TaskEither<E, (value: U) => V>,
+    taskValue: TaskEither<E2, U>
+  ) => TaskEither<E | E2, V>;
+
+  /**
+   * Chains another `TaskEither` based on the success value, combining the error types.
+   * 成功値をもとに別の `TaskEither` を連結し、エラー型を合成します。
+   * @param fn - A function that returns a `TaskEither`. / `TaskEither` を返す関数。
+   */
+  readonly flatMap: <E2, B>(
+    fn: (value: A) => TaskEither<E2, B>
+  ) => TaskEither<E | E2, B>;
+
+  /**
+   * Chains another `TaskEither` based on the success value, combining the error types.
+   * Alias for `flatMap`.
+   * 成功値をもとに別の `TaskEither` を連結し、エラー型を合成します。
+   * `flatMap` のエイリアス。
+   * @param fn - A function that returns a `TaskEither`. / `TaskEither` を返す関数。
+   */
+  readonly ">>=": <E2, B>(
+    fn: (value: A) => TaskEither<E2, B>
+  ) => TaskEither<E | E2, B>;
+
+  /**
+   * Recovers from an error by chaining another `TaskEither`.
+   * 別の `TaskEither` を連結してエラーから回復します。
+   * @param fn - A function that returns a `TaskEither` for the error. / エラーに対して `TaskEither` を返す関数。
+   */
+  readonly orElse: <E2, B>(
+    fn: (error: E) => TaskEither<E2, B>
+  ) => TaskEither<E2, A | B>;
+
+  /**
+   * Handles both the error and the success value, producing a `Task` that always succeeds.
+   * エラーと成功値の両方を処理し、常に成功する `Task` を生成します。
+   * @param onLeft - A function to apply to the error. / エラーに適用する関数。
+   * @param onRight - A function to apply to the success value. / 成功値に適用する関数。
+   */
+  readonly fold: <U>(
+    onLeft: (error: E) => U,
+    onRight: (value: A) => U
+  ) => Task<U>;
+
+  /**
+   * Converts the `TaskEither` into a `Task` that resolves with an `Either`.
+   * `TaskEither` を `Either` で解決される `Task` に変換します。
+   */
+  readonly toTask: () => Task<Either<E, A>>;
+
+  /**
+   * Executes the asynchronous computation and returns a `Promise` that resolves with an `Either`.
+   * 非同期計算を実行し、`Either` で解決する `Promise` を返します。
+   * @param signal - An optional signal to cancel the computation. / 計算をキャンセルするための任意のシグナル。
+   */
+  readonly run: (signal?: AbortSignal) => Promise<Either<E, A>>;
+};
+
+/**
+ * Extracts the error type of a `TaskEither`.
+ * `TaskEither` のエラー型を取り出します。
+ */
+export type TaskEitherLeft<T> = T extends TaskEither<infer E, any> ? E : never;
+
+/**
+ * Extracts the success type of a `TaskEither`.
+ * `TaskEither` の成功値の型を取り出します。
+ */
+export type TaskEitherRight<T> = T extends TaskEither<any, infer A> ? A : never;
+
+/**
+ * Creates a new `TaskEither` from a `Task` that resolves with an `Either`.
+ * `Either` で解決される `Task` から新しい `TaskEither` を作成します。
+ * @param inner - The underlying `Task`. / 元となる `Task`。
+ */
+const taskEither = <E, A>(inner: Task<Either<E, A>>): TaskEither<E, A> => {
+  const map = <B>(fn: (value: A) => B): TaskEither<E, B> =>
+    taskEither(inner.map((either) => either.map(fn)));
+  const mapLeft = <E2>(fn: (error: E) => E2): TaskEither<E2, A> =>
+    taskEither(
+      inner.map((either) =>
+        either.match<Either<E2, A>>(
+          (error) => Either.left(fn(error)),
+          (value) => Either.right(value)
+        )
+      )
+    );
+  const flatMap = <E2, B>(
+    fn: (value: A) => TaskEither<E2, B>
+  ): TaskEither<E | E2, B> =>
+    taskEither(
+      inner.flatMap((either) =>
+        either.match<Task<Either<E | E2, B>>>(
+          (error) => Task.pack(Either.left<E | E2, B>(error)),
+          (value) =>
+            fn(value)
+              .mapLeft<E | E2>((error) => error)
+              .toTask()
+        )
+      )
+    );
+  const apply = function <E2, U, V>(
+    this: TaskEither<E, (value: U) => V>,
+    taskValue: TaskEither<E2, U>
+  ): TaskEither<E | E2, V> {
+    return this.flatMap((fn) => {
+      if (typeof fn !== "function") {
+        throw new TypeError("fn is not a function");
+      }
+      return taskValue.map((value) => fn(value));
+    });
+  };
+  const orElse = <E2, B>(
+    fn: (error: E) => TaskEither<E2, B>
+  ): TaskEither<E2, A | B> =>
+    taskEither(
+      inner.flatMap((either) =>
+        either.match<Task<Either<E2, A | B>>>(
+          (error) =>
+            fn(error)
+              .map<A | B>((value) => value)
+              .toTask(),
+          (value) => Task.pack(Either.right<E2, A | B>(value))
+        )
+      )
+    );
+  const fold = <U>(
+    onLeft: (error: E) => U,
+    onRight: (value: A) => U
+  ): Task<U> => inner.map((either) => either.match(onLeft, onRight));
+  const toTask = () => inner;
+  const run = (signal?: AbortSignal) => inner.run(signal);
+
+  return {
+    isTaskEither: true,
+    map,
+    mapLeft,
+    apply,
+    flatMap,
+    orElse,
+    fold,
+    toTask,
+    run,
+    "<$>": map,
+    "<*>": apply,
+    ">>=": flatMap,
+  } as const;
+};
+
+/**
+ * Creates a `TaskEither` that succeeds with the given value.
+ * 指定された値で成功する `TaskEither` を作成します。
+ * @param value - The success value. / 成功値。
+ */
+const right = <E, A>(value: A): TaskEither<E, A> =>
+  taskEither(Task.pack(Either.right<E, A>(value)));
+
+/**
+ * Creates a `TaskEither` that fails with the given error.
+ * 指定されたエラーで失敗する `TaskEither` を作成します。
+ * @param error - The error. / エラー。
+ */
+const left = <E, A>(error: E): TaskEither<E, A> =>
+  taskEither(Task.pack(Either.left<E, A>(error)));
+
+/**
+ * Lifts an `Either` into a `TaskEither`.
+ * `Either` を `TaskEither` に持ち上げます。
+ * @param either - The `Either` to lift. / 持ち上げる `Either`。
+ */
+const fromEither = <E, A>(either: Either<E, A>): TaskEither<E, A> =>
+  taskEither(Task.pack(either));
+
+/**
+ * Creates a `TaskEither` from a computation that may throw or reject, converting failures into errors.
+ * Cancellation is not converted and is propagated as a rejection.
+ * 例外や拒否が発生しうる計算から `TaskEither` を作成し、失敗をエラーに変換します。
+ * キャンセルは変換されず、拒否として伝播されます。
+ * @param fn - A function that performs the computation. / 計算を実行する関数。
+ * @param onError - A function that converts a failure into an error. / 失敗をエラーに変換する関数。
+ */
+const tryCatch = <E, A>(
+  fn: (signal: AbortSignal) => A | Promise<A>,
+  onError: (error: unknown) => E
+): TaskEither<E, A> =>
+  taskEither(
+    Task.tryCatch<Either<E, A>>(
+      (signal) =>
+        Promise.resolve(fn(signal)).then((value) =>
+          Either.right<E, A>(value as A)
+        ),
+      (error) => Either.left(onError(error))
+    )
+  );
+
+/**
+ * Creates a `TaskEither` from a `Task`, converting its failures into errors.
+ * `Task` から `TaskEither` を作成し、その失敗をエラーに変換します。
+ * @param task - The `Task` to convert. / 変換する `Task`。
+ * @param onError - A function that converts a failure into an error. / 失敗をエラーに変換する関数。
+ */
+const fromTask = <E, A>(
+  task: Task<A>,
+  onError: (error: unknown) => E
+): TaskEither<E, A> => tryCatch((signal) => task.run(signal), onError);
+
+/**
+ * Checks if the given value is a `TaskEither`.
+ * 指定された値が `TaskEither` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isTaskEither = <E, A>(value: any): value is TaskEither<E, A> =>
+  value?.isTaskEither === true;
+
+/**
+ * Enables a "do notation" for TaskEither, allowing for sequential composition of TaskEither operations.
+ * The error type of the result is the union of the error types of every yielded `TaskEither`,
+ * and each `yield` expression can be annotated with the success type of the yielded `TaskEither`.
+ * TaskEither に対して「do 記法」を提供し、TaskEither の操作を逐次的に記述できるようにします。
+ * 結果のエラー型は、`yield` されたすべての `TaskEither` のエラー型の合併になり、
+ * 各 `yield` 式には `yield` した `TaskEither` の成功値の型を注釈できます。
+ *
+ * @param generatorFunc - A generator function yielding TaskEither values.
+ *                        TaskEither の値を `yield` するジェネレータ関数。
+ * @returns A TaskEither containing the final computed value.
+ *          計算結果を含む TaskEither を返します。
+ */
+function Do<T extends TaskEither<any, any>, U, E = never>(
+  generatorFunc: () => Generator<T, U | TaskEither<E, U>, any>
+): TaskEither<TaskEitherLeft<T> | E, U> {
+  return taskEither(
+    Task.from((signal) => {
+      const iterator = generatorFunc();
+      function step(value?: unknown): TaskEither<TaskEitherLeft<T> | E, U> {
+        const { value: result, done } = iterator.next(value);
+        return done
+          ? TaskEither.isTaskEither(result)
+            ? (result as TaskEither<TaskEitherLeft<T> | E, U>)
+            : TaskEither.pack<TaskEitherLeft<T> | E, U>(result as U)
+          : (result as TaskEither<TaskEitherLeft<T>, TaskEitherRight<T>>)[
+              ">>="
+            ](step);
+      }
+
+      return step(undefined as never).run(signal);
+    })
+  );
+}
+
+/**
+ * TaskEither utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `TaskEither` ユーティリティオブジェクト。
+ */
+export const TaskEither = {
+  do: Do,
+  from: taskEither,
+  pack: right,
+  right,
+  left,
+  fromEither,
+  fromTask,
+  tryCatch,
+  isTaskEither,
+} as const;
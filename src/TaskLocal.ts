@@ -0,0 +1,91 @@
+import { contextOf, runWithContext } from "./RunContext";
+import { Task } from "./Task";
+
+/**
+ * A value scoped to a run of a `Task`, such as a request ID.
+ * It flows through `map`, `flatMap`, `Task.do` and forked work, and concurrent runs never see each other's values.
+ * リクエスト ID など、`Task` の実行にスコープされた値。
+ * `map`、`flatMap`、`Task.do`、フォークされた処理を通じて伝播し、並行する実行が互いの値を参照することはありません。
+ */
+export type TaskLocal<T> = {
+  readonly isTaskLocal: true; // Identifies the object as a `TaskLocal`. / オブジェクトが `TaskLocal` であることを識別。
+
+  /**
+   * Returns a `Task` that resolves with the value in the current run, or the initial value when none is set.
+   * 現在の実行における値、または設定されていない場合は初期値で解決する `Task` を返します。
+   */
+  readonly get: () => Task<T>;
+
+  /**
+   * Returns a `Task` that sets the value for the rest of the current run.
+   * Work forked before the change keeps the value it started with.
+   * 現在の実行の残りの部分に対して値を設定する `Task` を返します。
+   * 変更前にフォークされた処理は、開始時の値を保持します。
+   */
+  readonly set: (value: T) => Task<void>;
+
+  /**
+   * Returns a `Task` that runs the given `Task` with the given value, restoring the previous value afterwards.
+   * 指定された値で指定された `Task` を実行し、その後に以前の値に戻す `Task` を返します。
+   * @param value - The value to use. / 使用する値。
+   * @param task - The `Task` to run. / 実行する `Task`。
+   */
+  readonly locally: <U>(value: T, task: Task<U>) => Task<U>;
+};
+
+/**
+ * Creates a new `TaskLocal` with the given initial value.
+ * 指定された初期値を持つ新しい `TaskLocal` を作成します。
+ * @param initial - The value used when none is set. / 値が設定されていない場合に使用される値。
+ */
+const create = <T>(initial: T): TaskLocal<T> => {
+  const key = Symbol("TaskLocal");
+
+  const get = (): Task<T> =>
+    Task.from((signal) => {
+      const { locals } = contextOf(signal);
+      return Promise.resolve(
+        locals?.has(key) ? (locals.get(key) as T) : initial
+      );
+    });
+  const set = (value: T): Task<void> =>
+    Task.from((signal) => {
+      contextOf(signal).locals?.set(key, value);
+      return Promise.resolve();
+    });
+  const locally = <U>(value: T, task: Task<U>): Task<U> =>
+    Task.from((signal) =>
+      runWithContext(
+        signal,
+        (context) => ({
+          ...context,
+          locals: new Map(context.locals).set(key, value),
+        }),
+        task.run
+      )
+    );
+
+  return {
+    isTaskLocal: true,
+    get,
+    set,
+    locally,
+  };
+};
+
+/**
+ * Checks if the given value is a `TaskLocal`.
+ * 指定された値が `TaskLocal` かどうかを判定します。
+ * @param value - The value to check. / 判定する値。
+ */
+const isTaskLocal = <T>(value: any): value is TaskLocal<T> =>
+  value?.isTaskLocal === true;
+
+/**
+ * TaskLocal utility object containing constructors and helper functions.
+ * コンストラクタとヘルパー関数を含む `TaskLocal` ユーティリティオブジェクト。
+ */
+export const TaskLocal = {
+  create,
+  isTaskLocal,
+} as const;
@@ -3,3 +3,15 @@ export * from "./RBox";
 export * from "./Maybe";
 export * from "./Either";
 export * from "./Task";
+export * from "./Clock";
+export * from "./TaskEither";
+export * from "./Resource";
+export * from "./Stream";
+export * from "./ReaderTask";
+export * from "./Semaphore";
+export * from "./RateLimiter";
+export * from "./CircuitBreaker";
+export * from "./Schedule";
+export * from "./TaskLocal";
+export * from "./Cassette";
+export * from "./Http";
@@ -1,4 +1,5 @@
 import { Box } from "../src/Box";
+import { Either } from "../src/Either";
 
 describe("Box laws", () => {
   /**
@@ -186,3 +187,90 @@ describe("Box laws", () => {
     });
   });
 });
+
+describe("Box stack safety", () => {
+  const N = 1_000_000;
+
+  test("recursive flatMap should run a million levels", () => {
+    const count = (n: number): Box<number> =>
+      n === 0 ? Box.pack(0) : Box.pack(n - 1)[">>="](count);
+    expect(count(N).getValue()).toBe(0);
+  });
+
+  test("tailRec should run a million steps", () => {
+    const result = Box.tailRec(0, (n) =>
+      Box.pack(
+        n < N
+          ? Either.left<number, number>(n + 1)
+          : Either.right<number, number>(n)
+      )
+    );
+    expect(result.getValue()).toBe(N);
+  });
+
+  test("Do should loop a million times", () => {
+    const result = Box.do(function* () {
+      let total = 0;
+      for (let i = 0; i < N; i++) {
+        const one: number = yield Box.pack(1);
+        total += one;
+      }
+      return total;
+    });
+    expect(result.getValue()).toBe(N);
+  });
+
+  test("flatMap should evaluate its function once", () => {
+    let calls = 0;
+    const result = Box.pack(1).flatMap((n) => {
+      calls++;
+      return Box.pack(n + 1);
+    });
+
+    expect(calls).toBe(1);
+    expect(result.getValue()).toBe(2);
+    expect(result.map((n) => n * 2).getValue()).toBe(4);
+    expect(calls).toBe(1);
+  });
+
+  test("flatMap should evaluate a shared intermediate Box once", () => {
+    const calls: string[] = [];
+    const a = Box.pack(1);
+    const b = a.flatMap((n) => {
+      calls.push("f");
+      return Box.pack(n + 1);
+    });
+    const c = b.flatMap((n) => {
+      calls.push("g");
+      return Box.pack(n * 10);
+    });
+
+    expect(c.getValue()).toBe(20);
+    expect(b.getValue()).toBe(2);
+    expect(calls).toEqual(["f", "g"]);
+  });
+
+  test("flatMap should evaluate shared Boxes inside a recursive chain once", () => {
+    let calls = 0;
+    const shared = (n: number): Box<number> =>
+      Box.pack(n).flatMap((value) => {
+        calls++;
+        return Box.pack(value + 1);
+      });
+    const result = Box.pack(1).flatMap((n) => {
+      const b = shared(n);
+      return b.flatMap((x) => b.map((y) => x + y));
+    });
+
+    expect(result.getValue()).toBe(4);
+    expect(calls).toBe(1);
+  });
+
+  test("flatMap should throw errors of its function right away", () => {
+    expect(() =>
+      Box.pack(1).flatMap(() => {
+        throw new Error("FlatMap error");
+      })
+    ).toThrowError("FlatMap error");
+  });
+});
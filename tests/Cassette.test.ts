@@ -0,0 +1,207 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Cassette, CassetteMismatchError } from "../src/Cassette";
+import { CancellationError, Task } from "../src/Task";
+
+describe("Cassette", () => {
+  const fetchUser = (calls: number[]) => (id: number) =>
+    Task.from(() => {
+      calls.push(id);
+      return id > 0
+        ? Promise.resolve({ id, name: `user ${id}` })
+        : Promise.reject(new RangeError(`Invalid id ${id}`));
+    });
+
+  test("should replay recorded results without running the tasks", async () => {
+    const storage = Cassette.memory();
+    const calls: number[] = [];
+
+    const recorder = Cassette.create({ mode: "record", storage });
+    const recorded = recorder.wrap("fetchUser", fetchUser(calls));
+    expect(await recorded(1).run()).toEqual({ id: 1, name: "user 1" });
+    expect(await recorded(2).run()).toEqual({ id: 2, name: "user 2" });
+    await recorder.save().run();
+
+    const player = Cassette.create({ mode: "replay", storage });
+    const replayed = player.wrap("fetchUser", fetchUser(calls));
+    expect(await replayed(1).run()).toEqual({ id: 1, name: "user 1" });
+    expect(await replayed(2).run()).toEqual({ id: 2, name: "user 2" });
+    expect(calls).toEqual([1, 2]);
+    await expect(player.verify().run()).resolves.toBeUndefined();
+  });
+
+  test("save should leave the storage untouched in replay mode", async () => {
+    const storage = Cassette.memory();
+    const recorder = Cassette.create({ mode: "record", storage });
+    await recorder.wrap("fetchUser", fetchUser([]))(1).run();
+    await recorder.save().run();
+    const saved = await storage.load();
+
+    const player = Cassette.create({ mode: "replay", storage });
+    await player.wrap("fetchUser", fetchUser([]))(1).run();
+    await player.save().run();
+
+    expect(await storage.load()).toBe(saved);
+    expect(saved).toHaveLength(1);
+  });
+
+  test("should replay recorded errors", async () => {
+    const storage = Cassette.memory();
+    const recorder = Cassette.create({ mode: "record", storage });
+    await expect(
+      recorder.wrap("fetchUser", fetchUser([]))(-1).run()
+    ).rejects.toBeInstanceOf(RangeError);
+    await recorder.save().run();
+
+    const player = Cassette.create({ mode: "replay", storage });
+    const error = await player
+      .wrap(
+        "fetchUser",
+        fetchUser([])
+      )(-1)
+      .run()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("RangeError");
+    expect(error.message).toBe("Invalid id -1");
+  });
+
+  test("should replay calls with the same name in recorded order", async () => {
+    const storage = Cassette.memory();
+    const recorder = Cassette.create({ mode: "record", storage });
+    let count = 0;
+    const next = Task.from(() => Promise.resolve(++count));
+    await recorder.record("next", next).run();
+    await recorder.record("next", next).run();
+    await recorder.save().run();
+
+    const player = Cassette.create({ mode: "replay", storage });
+    const replayed = await Task.all([
+      player.record("next", next),
+      player.record("next", next),
+    ]).run();
+    expect(replayed).toEqual([1, 2]);
+    expect(count).toBe(2);
+  });
+
+  test("should detect calls with a different input", async () => {
+    const storage = Cassette.memory([
+      {
+        name: "fetchUser",
+        input: [1],
+        outcome: { type: "success", value: { id: 1 } },
+      },
+    ]);
+    const player = Cassette.create({ mode: "replay", storage });
+
+    const error = await player
+      .wrap(
+        "fetchUser",
+        fetchUser([])
+      )(2)
+      .run()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toBe(
+      'Call 1 of "fetchUser" was recorded with [1] but received [2]'
+    );
+  });
+
+  test("should detect calls that were never recorded", async () => {
+    const player = Cassette.create({
+      mode: "replay",
+      storage: Cassette.memory(),
+    });
+    await expect(
+      player.record("missing", Task.pack(1)).run()
+    ).rejects.toBeInstanceOf(CassetteMismatchError);
+  });
+
+  test("verify should report interactions that were not replayed", async () => {
+    const storage = Cassette.memory([
+      { name: "a", input: undefined, outcome: { type: "success", value: 1 } },
+      { name: "b", input: undefined, outcome: { type: "success", value: 2 } },
+    ]);
+    const player = Cassette.create({ mode: "replay", storage });
+    await player.record("a", Task.pack(0)).run();
+
+    await expect(player.verify().run()).rejects.toThrow(
+      '1 recorded call(s) were not replayed: "b"'
+    );
+  });
+
+  test("should not record cancelled calls", async () => {
+    const storage = Cassette.memory();
+    const recorder = Cassette.create({ mode: "record", storage });
+    const controller = new AbortController();
+    const slow = recorder
+      .record("slow", Task.sleep(1000))
+      .run(controller.signal);
+    controller.abort();
+    await expect(slow).rejects.toBeInstanceOf(CancellationError);
+    await recorder.record("fast", Task.pack("ok")).run();
+    await recorder.save().run();
+
+    expect(await storage.load()).toEqual([
+      {
+        name: "fast",
+        input: undefined,
+        outcome: { type: "success", value: "ok" },
+      },
+    ]);
+  });
+
+  describe("file storage", () => {
+    let dir = "";
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "cassette-"));
+    });
+    afterEach(() => rm(dir, { recursive: true, force: true }));
+
+    test("should save interactions as JSON and load them back", async () => {
+      const path = join(dir, "users.json");
+      const recorder = Cassette.create({
+        mode: "record",
+        storage: Cassette.file(path),
+      });
+      await recorder.wrap("fetchUser", fetchUser([]))(1).run();
+      await recorder.save().run();
+
+      expect(JSON.parse(await readFile(path, "utf8"))).toEqual({
+        version: 1,
+        interactions: [
+          {
+            name: "fetchUser",
+            input: [1],
+            outcome: { type: "success", value: { id: 1, name: "user 1" } },
+          },
+        ],
+      });
+
+      const player = Cassette.create({
+        mode: "replay",
+        storage: Cassette.file(path),
+      });
+      expect(await player.wrap("fetchUser", fetchUser([]))(1).run()).toEqual({
+        id: 1,
+        name: "user 1",
+      });
+    });
+
+    test("should load a missing file as an empty cassette", async () => {
+      await expect(
+        Cassette.file(join(dir, "missing.json")).load()
+      ).resolves.toEqual([]);
+    });
+  });
+
+  test("isCassette should identify cassettes", () => {
+    const cassette = Cassette.create({
+      mode: "replay",
+      storage: Cassette.memory(),
+    });
+    expect(Cassette.isCassette(cassette)).toBe(true);
+    expect(Cassette.isCassette({})).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+import { CircuitBreaker, CircuitOpenError } from "../src/CircuitBreaker";
+import { Clock } from "../src/Clock";
+import { CancellationError, Task } from "../src/Task";
+
+describe("CircuitBreaker behavior", () => {
+  const failing = (calls: { count: number }) =>
+    Task.tryTask<string>(() => {
+      calls.count++;
+      return Promise.reject(new Error("down"));
+    });
+  const succeeding = (calls: { count: number }) =>
+    Task.from(() => {
+      calls.count++;
+      return Promise.resolve("ok");
+    });
+
+  test("should open after consecutive failures and fail fast", async () => {
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 2,
+      clock: Clock.test(),
+    });
+    const calls = { count: 0 };
+    const task = breaker.protect(failing(calls));
+
+    await expect(task.run()).rejects.toThrow("down");
+    expect(breaker.state.getValue()).toBe("closed");
+    await expect(task.run()).rejects.toThrow("down");
+    expect(breaker.state.getValue()).toBe("open");
+
+    await expect(task.run()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(calls.count).toBe(2);
+  });
+
+  test("a success should reset the failure count while closed", async () => {
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 2,
+      clock: Clock.test(),
+    });
+    const calls = { count: 0 };
+
+    await breaker
+      .protect(failing(calls))
+      .run()
+      .catch(() => undefined);
+    await breaker.protect(succeeding(calls)).run();
+    await breaker
+      .protect(failing(calls))
+      .run()
+      .catch(() => undefined);
+
+    expect(breaker.state.getValue()).toBe("closed");
+  });
+
+  test("should half-open after the cool-down and close on a successful trial", async () => {
+    const clock = Clock.test();
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      clock,
+    });
+    const calls = { count: 0 };
+    await breaker
+      .protect(failing(calls))
+      .run()
+      .catch(() => undefined);
+    expect(breaker.state.getValue()).toBe("open");
+
+    await clock.advance(999);
+    expect(breaker.state.getValue()).toBe("open");
+    await clock.advance(1);
+    expect(breaker.state.getValue()).toBe("half-open");
+
+    await expect(breaker.protect(succeeding(calls)).run()).resolves.toBe("ok");
+    expect(breaker.state.getValue()).toBe("closed");
+  });
+
+  test("a failed trial should open the breaker again", async () => {
+    const clock = Clock.test();
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      clock,
+    });
+    const calls = { count: 0 };
+    await breaker
+      .protect(failing(calls))
+      .run()
+      .catch(() => undefined);
+    await clock.advance(1000);
+
+    await expect(breaker.protect(failing(calls)).run()).rejects.toThrow("down");
+    expect(breaker.state.getValue()).toBe("open");
+    expect(clock.pending()).toBe(1);
+  });
+
+  test("should limit the trial calls while half-open", async () => {
+    const clock = Clock.test();
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      clock,
+    });
+    const calls = { count: 0 };
+    await breaker
+      .protect(failing(calls))
+      .run()
+      .catch(() => undefined);
+    await clock.advance(1000);
+
+    const slow = breaker.protect(
+      Task.withClock(clock, Task.sleep(100)).map(() => "slow")
+    );
+    const trial = slow.run();
+    await expect(
+      breaker.protect(succeeding(calls)).run()
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    await clock.advance(100);
+
+    await expect(trial).resolves.toBe("slow");
+    expect(breaker.state.getValue()).toBe("closed");
+  });
+
+  test("cancellations and ignored errors should not count as failures", async () => {
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 1,
+      isFailure: (error) => !(error instanceof TypeError),
+      clock: Clock.test(),
+    });
+    const controller = new AbortController();
+    const cancelled = breaker.protect(Task.sleep(1000)).run(controller.signal);
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(CancellationError);
+    await expect(
+      breaker
+        .protect(Task.tryTask(() => Promise.reject(new TypeError("bad input"))))
+        .run()
+    ).rejects.toBeInstanceOf(TypeError);
+    expect(breaker.state.getValue()).toBe("closed");
+  });
+
+  test("fallback should recover from failures and open rejections", async () => {
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 1,
+      clock: Clock.test(),
+    });
+    const calls = { count: 0 };
+    const errors: unknown[] = [];
+    const fetchUser = breaker.wrap(
+      (id: number) => failing(calls).map((name) => `${id}:${name}`),
+      (error, id) => {
+        errors.push(error);
+        return Task.pack(`${id}:cached`);
+      }
+    );
+
+    await expect(fetchUser(1).run()).resolves.toBe("1:cached");
+    await expect(fetchUser(2).run()).resolves.toBe("2:cached");
+
+    expect(calls.count).toBe(1);
+    expect(errors[0]).toEqual(new Error("down"));
+    expect(errors[1]).toBeInstanceOf(CircuitOpenError);
+  });
+
+  test("should report state changes through the RBox and callback", async () => {
+    const clock = Clock.test();
+    const changes: string[] = [];
+    const observed: string[] = [];
+    const breaker = CircuitBreaker.create({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      clock,
+      onStateChange: (state, previous) => changes.push(`${previous}>${state}`),
+    });
+    breaker.state.subscribe((state) => observed.push(state));
+    const calls = { count: 0 };
+
+    await breaker
+      .protect(failing(calls))
+      .run()
+      .catch(() => undefined);
+    await clock.advance(1000);
+    await breaker.protect(succeeding(calls)).run();
+
+    expect(changes).toEqual([
+      "closed>open",
+      "open>half-open",
+      "half-open>closed",
+    ]);
+    expect(observed).toEqual(["open", "half-open", "closed"]);
+  });
+
+  test("reset should close the breaker", async () => {
+    const clock = Clock.test();
+    const breaker = CircuitBreaker.create({ failureThreshold: 1, clock });
+    await breaker
+      .protect(failing({ count: 0 }))
+      .run()
+      .catch(() => undefined);
+
+    breaker.reset();
+
+    expect(breaker.state.getValue()).toBe("closed");
+    expect(clock.pending()).toBe(0);
+  });
+
+  test("isCircuitBreaker should identify circuit breakers", () => {
+    expect(CircuitBreaker.isCircuitBreaker(CircuitBreaker.create())).toBe(true);
+    expect(CircuitBreaker.isCircuitBreaker({})).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { Clock } from "../src/Clock";
+
+describe("Clock behavior", () => {
+  /**
+   * システムクロックのテスト。
+   * 1. now が Date.now を返すことを確認。
+   */
+  test("system clock uses Date.now", () => {
+    vi.useFakeTimers({ now: 1000 });
+
+    expect(Clock.system.now()).toBe(1000);
+    vi.useRealTimers();
+  });
+
+  /**
+   * テストクロックのテスト。
+   * 1. advance で時間が進み、期限を迎えたタイマーが順番に実行されることを確認。
+   * 2. clearTimeout でタイマーがキャンセルされることを確認。
+   * 3. タイマー内の Promise が予約したタイマーも実行されることを確認。
+   */
+  describe("TestClock", () => {
+    test("starts at the given time", () => {
+      expect(Clock.test().now()).toBe(0);
+      expect(Clock.test(500).now()).toBe(500);
+    });
+
+    test("advance runs due timers in order", async () => {
+      const clock = Clock.test();
+      const events: string[] = [];
+      clock.setTimeout(() => events.push(`b at ${clock.now()}`), 20);
+      clock.setTimeout(() => events.push(`a at ${clock.now()}`), 10);
+      clock.setTimeout(() => events.push(`c at ${clock.now()}`), 30);
+
+      await clock.advance(25);
+
+      expect(events).toEqual(["a at 10", "b at 20"]);
+      expect(clock.now()).toBe(25);
+      expect(clock.pending()).toBe(1);
+    });
+
+    test("clearTimeout cancels a timer", async () => {
+      const clock = Clock.test();
+      const callback = vi.fn();
+      const handle = clock.setTimeout(callback, 10);
+
+      clock.clearTimeout(handle);
+      await clock.advance(10);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(clock.pending()).toBe(0);
+    });
+
+    test("runs timers scheduled from promise callbacks", async () => {
+      const clock = Clock.test();
+      const wait = (ms: number) =>
+        new Promise<void>((resolve) => clock.setTimeout(resolve, ms));
+      const events: number[] = [];
+      wait(10)
+        .then(() => events.push(clock.now()))
+        .then(() => wait(10))
+        .then(() => events.push(clock.now()));
+
+      await clock.advance(20);
+
+      expect(events).toEqual([10, 20]);
+    });
+
+    test("runAll runs every pending timer", async () => {
+      const clock = Clock.test();
+      const callback = vi.fn(() => clock.setTimeout(() => undefined, 100));
+      clock.setTimeout(callback, 1000);
+
+      await clock.runAll();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(clock.now()).toBe(1100);
+      expect(clock.pending()).toBe(0);
+    });
+  });
+});
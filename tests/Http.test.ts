@@ -0,0 +1,269 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Either } from "../src/Either";
+import { Http, HttpError } from "../src/Http";
+import { Schedule } from "../src/Schedule";
+import { CancellationError } from "../src/Task";
+
+describe("Http", () => {
+  let server: Server;
+  let baseUrl = "";
+  let requests: string[] = [];
+  let flakyFailures = 0;
+
+  const readBody = (request: IncomingMessage) =>
+    new Promise<string>((resolve) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => resolve(body));
+    });
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const url = request.url ?? "/";
+      requests.push(`${request.method} ${url}`);
+      const send = (
+        status: number,
+        body: string,
+        type = "application/json"
+      ) => {
+        response.writeHead(status, { "content-type": type });
+        response.end(body);
+      };
+      if (url === "/users/1") return send(200, '{"id":1,"name":"Alice"}');
+      if (url === "/text") return send(200, "hello", "text/plain");
+      if (url === "/empty") return send(204, "");
+      if (url === "/invalid") return send(200, "{not json");
+      if (url === "/missing") return send(404, "not found", "text/plain");
+      if (url === "/slow") {
+        setTimeout(() => send(200, '"late"'), 200);
+        return;
+      }
+      if (url === "/flaky") {
+        return flakyFailures-- > 0
+          ? send(503, "busy", "text/plain")
+          : send(200, '"recovered"');
+      }
+      if (url === "/echo") {
+        readBody(request).then((body) =>
+          send(
+            200,
+            JSON.stringify({
+              method: request.method,
+              type: request.headers["content-type"],
+              token: request.headers["x-token"],
+              body,
+            })
+          )
+        );
+        return;
+      }
+      send(500, "unexpected", "text/plain");
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(
+    () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      })
+  );
+
+  beforeEach(() => {
+    requests = [];
+    flakyFailures = 0;
+  });
+
+  const errorOf = <A>(result: Either<HttpError, A>): HttpError => {
+    expect(Either.isLeft(result)).toBe(true);
+    return result.getValue() as HttpError;
+  };
+
+  test("get should be lazy and decode JSON", async () => {
+    const task = Http.get(`${baseUrl}/users/1`);
+    expect(requests).toEqual([]);
+
+    const result = await task.run();
+    expect(Either.isRight(result)).toBe(true);
+    const response = result.getOrElse(undefined as never);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 1, name: "Alice" });
+    expect(response.headers.get("content-type")).toBe("application/json");
+
+    await task.run();
+    expect(requests).toEqual(["GET /users/1", "GET /users/1"]);
+  });
+
+  test("decode hooks should type and validate the body", async () => {
+    type User = { id: number; name: string };
+    const isUser = (value: unknown): User => {
+      if (typeof (value as User)?.name !== "string") {
+        throw new TypeError("Not a user");
+      }
+      return value as User;
+    };
+
+    const user = await Http.get(`${baseUrl}/users/1`, {
+      decode: Http.json(isUser),
+    })
+      .map((result) => result.map((response) => response.body.name))
+      .run();
+    expect(user.getOrElse("")).toBe("Alice");
+
+    const text = await Http.get(`${baseUrl}/text`, { decode: Http.text }).run();
+    expect(text.map((response) => response.body).getOrElse("")).toBe("hello");
+
+    const empty = await Http.get(`${baseUrl}/empty`).run();
+    expect(empty.map((response) => response.body).getOrElse(null)).toBe(
+      undefined
+    );
+
+    const invalid = errorOf(
+      await Http.get(`${baseUrl}/text`, { decode: Http.json(isUser) }).run()
+    );
+    expect(invalid.type).toBe("decode");
+  });
+
+  test("post should send JSON bodies and headers", async () => {
+    const result = await Http.post(
+      `${baseUrl}/echo`,
+      { name: "Bob" },
+      { headers: { "x-token": "secret" } }
+    ).run();
+
+    expect(result.map((response) => response.body).getOrElse(null)).toEqual({
+      method: "POST",
+      type: "application/json",
+      token: "secret",
+      body: '{"name":"Bob"}',
+    });
+  });
+
+  test("request should send string bodies as they are", async () => {
+    const result = await Http.request(`${baseUrl}/echo`, {
+      method: "put",
+      body: "raw",
+      headers: { "content-type": "text/plain" },
+    }).run();
+
+    expect(result.map((response) => response.body).getOrElse(null)).toEqual({
+      method: "PUT",
+      type: "text/plain",
+      body: "raw",
+    });
+  });
+
+  test("rejected statuses should produce status errors", async () => {
+    const error = errorOf(await Http.get(`${baseUrl}/missing`).run());
+    expect(error).toMatchObject({
+      type: "status",
+      status: 404,
+      body: "not found",
+      method: "GET",
+      url: `${baseUrl}/missing`,
+    });
+    expect(Http.isHttpError(error)).toBe(true);
+
+    const accepted = await Http.get(`${baseUrl}/missing`, {
+      decode: Http.text,
+      validateStatus: () => true,
+    }).run();
+    expect(accepted.map((response) => response.status).getOrElse(0)).toBe(404);
+  });
+
+  test("invalid bodies should produce decode errors", async () => {
+    const error = errorOf(await Http.get(`${baseUrl}/invalid`).run());
+    expect(error.type).toBe("decode");
+    expect(error.type === "decode" && error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  test("unreachable servers should produce network errors", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const error = errorOf(await Http.get(`http://127.0.0.1:${port}/`).run());
+    expect(error.type).toBe("network");
+  });
+
+  test("slow responses should produce timeout errors", async () => {
+    const error = errorOf(
+      await Http.get(`${baseUrl}/slow`, { timeout: 20 }).run()
+    );
+    expect(error).toMatchObject({ type: "timeout", ms: 20 });
+  });
+
+  test("cancelling the run should reject instead of producing an error", async () => {
+    const controller = new AbortController();
+    const promise = Http.get(`${baseUrl}/slow`).run(controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+  });
+
+  test("retry should repeat retryable failures only", async () => {
+    flakyFailures = 2;
+    const result = await Http.get(`${baseUrl}/flaky`, {
+      retry: { maxAttempts: 3 },
+    }).run();
+    expect(result.map((response) => response.body).getOrElse(null)).toBe(
+      "recovered"
+    );
+    expect(requests).toEqual(["GET /flaky", "GET /flaky", "GET /flaky"]);
+
+    requests = [];
+    const missing = await Http.get(`${baseUrl}/missing`, {
+      retry: { maxAttempts: 3 },
+    }).run();
+    expect(errorOf(missing).type).toBe("status");
+    expect(requests).toEqual(["GET /missing"]);
+  });
+
+  test("retry should return the last error once the schedule stops", async () => {
+    flakyFailures = 5;
+    const statuses: number[] = [];
+    const result = await Http.get(`${baseUrl}/flaky`, {
+      retry: Schedule.from((error: HttpError) => {
+        if (error.type === "status") statuses.push(error.status);
+        return Schedule.forever().next(error, { attempt: 0, elapsed: 0 });
+      }).upTo(1),
+    }).run();
+
+    expect(errorOf(result)).toMatchObject({ type: "status", status: 503 });
+    expect(statuses).toEqual([503, 503]);
+    expect(requests).toHaveLength(2);
+  });
+
+  test("isRetryable should accept transient failures", () => {
+    const base = {
+      isHttpError: true,
+      method: "GET",
+      url: "/",
+      message: "",
+    } as const;
+    const status = (code: number): HttpError => ({
+      ...base,
+      type: "status",
+      status: code,
+      statusText: "",
+      headers: new Headers(),
+      body: "",
+    });
+
+    expect(Http.isRetryable({ ...base, type: "network", cause: null })).toBe(
+      true
+    );
+    expect(Http.isRetryable({ ...base, type: "timeout", ms: 1 })).toBe(true);
+    expect(Http.isRetryable(status(503))).toBe(true);
+    expect(Http.isRetryable(status(429))).toBe(true);
+    expect(Http.isRetryable(status(404))).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { Clock } from "../src/Clock";
+import { RateLimiter } from "../src/RateLimiter";
+import { CancellationError, Task } from "../src/Task";
+
+describe("RateLimiter behavior", () => {
+  const recorder = (clock: Clock, starts: number[]) =>
+    Task.from(() => {
+      starts.push(clock.now());
+      return Promise.resolve();
+    });
+
+  test("should allow a burst up to the capacity and then pace tasks", async () => {
+    const clock = Clock.test();
+    const limiter = RateLimiter.create({ tokens: 2, interval: 1000, clock });
+    const starts: number[] = [];
+    const promise = Task.all(
+      [1, 2, 3, 4, 5].map(() => limiter.withPermit(recorder(clock, starts)))
+    ).run();
+
+    await clock.runAll();
+    await promise;
+
+    expect(starts).toEqual([0, 0, 500, 1000, 1500]);
+  });
+
+  test("should refill tokens over time without exceeding the capacity", async () => {
+    const clock = Clock.test();
+    const limiter = RateLimiter.create({
+      tokens: 1,
+      interval: 100,
+      capacity: 3,
+      clock,
+    });
+    await Task.all([1, 2, 3].map(() => limiter.withPermit(Task.pack(1)))).run();
+    expect(limiter.available()).toBe(0);
+
+    await clock.advance(150);
+    expect(limiter.available()).toBe(1);
+
+    await clock.advance(10_000);
+    expect(limiter.available()).toBe(3);
+  });
+
+  test("should start waiters in FIFO order", async () => {
+    const clock = Clock.test();
+    const limiter = RateLimiter.create({ tokens: 1, interval: 100, clock });
+    const order: number[] = [];
+    const job = (n: number) =>
+      limiter.withPermit(
+        Task.from(() => {
+          order.push(n);
+          return Promise.resolve();
+        })
+      );
+    const promise = Task.all([job(1), job(2), job(3)]).run();
+
+    await clock.runAll();
+    await promise;
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  test("a cancelled waiter should leave the queue without using a token", async () => {
+    const clock = Clock.test();
+    const limiter = RateLimiter.create({ tokens: 1, interval: 100, clock });
+    const controller = new AbortController();
+    await limiter.withPermit(Task.pack(1)).run();
+    const waiter = limiter.withPermit(Task.pack(2)).run(controller.signal);
+    await Promise.resolve();
+    expect(limiter.pending()).toBe(1);
+
+    controller.abort();
+
+    await expect(waiter).rejects.toBeInstanceOf(CancellationError);
+    expect(limiter.pending()).toBe(0);
+    expect(clock.pending()).toBe(0);
+    await clock.advance(100);
+    expect(limiter.available()).toBe(1);
+  });
+
+  test("create should reject options under which no waiter could start", () => {
+    const invalid = [
+      { tokens: 0 },
+      { tokens: -1 },
+      { tokens: NaN },
+      { tokens: 1, interval: 0 },
+      { tokens: 1, capacity: 0.5 },
+      { tokens: 0.5 },
+    ];
+
+    for (const options of invalid) {
+      expect(() => RateLimiter.create(options)).toThrow(RangeError);
+    }
+    expect(() =>
+      RateLimiter.create({ tokens: 0.5, capacity: 1 })
+    ).not.toThrow();
+  });
+
+  test("isRateLimiter should identify rate limiters", () => {
+    expect(RateLimiter.isRateLimiter(RateLimiter.create({ tokens: 1 }))).toBe(
+      true
+    );
+    expect(RateLimiter.isRateLimiter({})).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import { ReaderTask } from "../src/ReaderTask";
+import { Task } from "../src/Task";
+
+describe("ReaderTask laws and behavior", () => {
+  type Logger = { log: (message: string) => void };
+  type Config = { baseUrl: string };
+
+  /**
+   * ファンクター則のテスト。
+   * 1. 恒等則（Identity）
+   * 2. 合成則（Composition）
+   */
+  describe("Functor laws", () => {
+    test("Identity", async () => {
+      const reader = ReaderTask.asks((env: Config) => env.baseUrl);
+      const env = { baseUrl: "https://example.com" };
+
+      // Identity: `<$>` id = id
+      const result = await reader["<$>"]((x) => x)
+        .provide(env)
+        .run();
+      expect(result).toBe(await reader.provide(env).run());
+    });
+
+    test("Composition", async () => {
+      const reader = ReaderTask.pack(10);
+      const f = (x: number) => x + 1;
+      const g = (x: number) => x * 2;
+
+      // Composition: `<$>` (f . g) = (`<$>` f) . (`<$>` g)
+      const left = await reader["<$>"]((x) => f(g(x)))
+        .provide({})
+        .run();
+      const right = await reader["<$>"](g)["<$>"](f).provide({}).run();
+      expect(left).toBe(right);
+    });
+  });
+
+  /**
+   * モナド則のテスト。
+   * 1. 左単位元則（Left Identity）
+   * 2. 右単位元則（Right Identity）
+   * 3. 結合則（Associativity）
+   */
+  describe("Monad laws", () => {
+    const f = (x: number) => ReaderTask.asks((env: Config) => x + env.baseUrl);
+    const env = { baseUrl: "/api" };
+
+    test("Left Identity", async () => {
+      // Left Identity: pack a >>= f = f a
+      const left = await ReaderTask.pack(1)[">>="](f).provide(env).run();
+      const right = await f(1).provide(env).run();
+      expect(left).toBe(right);
+    });
+
+    test("Right Identity", async () => {
+      // Right Identity: m >>= pack = m
+      const m = f(1);
+      const left = await m[">>="](ReaderTask.pack).provide(env).run();
+      expect(left).toBe(await m.provide(env).run());
+    });
+
+    test("Associativity", async () => {
+      const g = (x: string) => ReaderTask.pack(x.length);
+      const m = ReaderTask.pack(1);
+
+      // Associativity: (m >>= f) >>= g = m >>= (\x -> f x >>= g)
+      const left = await m[">>="](f)[">>="](g).provide(env).run();
+      const right = await m[">>="]((x) => f(x)[">>="](g))
+        .provide(env)
+        .run();
+      expect(left).toBe(right);
+    });
+  });
+
+  describe("Applicative", () => {
+    test("apply should combine the environments", async () => {
+      const fn = ReaderTask.asks(
+        (env: Config) => (path: string) => env.baseUrl + path
+      );
+      const value = ReaderTask.asks((env: { path: string }) => env.path);
+
+      const result = await fn["<*>"](value)
+        .provide({ baseUrl: "/api", path: "/users" })
+        .run();
+      expect(result).toBe("/api/users");
+    });
+  });
+
+  describe("Environment", () => {
+    test("ask should produce the environment", async () => {
+      const result = await ReaderTask.ask<Config>()
+        .provide({ baseUrl: "/api" })
+        .run();
+      expect(result).toEqual({ baseUrl: "/api" });
+    });
+
+    test("local should derive the environment", async () => {
+      const result = await ReaderTask.asks((env: Config) => env.baseUrl)
+        .local((url: string) => ({ baseUrl: url }))
+        .provide("/v2")
+        .run();
+      expect(result).toBe("/v2");
+    });
+
+    test("provideSome should supply part of the environment", async () => {
+      const messages: string[] = [];
+      const reader = ReaderTask.asks((env: Config & Logger) => {
+        env.log(`fetch ${env.baseUrl}`);
+        return env.baseUrl;
+      });
+
+      const partial = reader.provideSome({ baseUrl: "/api" });
+      const result = await partial
+        .provide({ log: (message) => messages.push(message) })
+        .run();
+
+      expect(result).toBe("/api");
+      expect(messages).toEqual(["fetch /api"]);
+    });
+
+    test("should let tests swap in fakes", async () => {
+      type Http = { get: (url: string) => Task<string> };
+      const fetchUser = (id: number) =>
+        ReaderTask.ask<Http & Config>().flatMap((env) =>
+          ReaderTask.fromTask(env.get(`${env.baseUrl}/users/${id}`))
+        );
+
+      const result = await fetchUser(1)
+        .provide({
+          baseUrl: "/api",
+          get: (url) => Task.pack(`fake ${url}`),
+        })
+        .run();
+      expect(result).toBe("fake /api/users/1");
+    });
+
+    test("provide should be lazy and rerunnable", async () => {
+      let calls = 0;
+      const task = ReaderTask.from((env: Config) =>
+        Task.from(() => {
+          calls++;
+          return Promise.resolve(env.baseUrl);
+        })
+      ).provide({ baseUrl: "/api" });
+
+      expect(calls).toBe(0);
+      await task.run();
+      await task.run();
+      expect(calls).toBe(2);
+    });
+  });
+
+  describe("Do notation", () => {
+    test("should combine environments and accept plain tasks", async () => {
+      const messages: string[] = [];
+      const program = ReaderTask.do(function* () {
+        const config: Config = yield ReaderTask.ask<Config>();
+        const logger: Logger = yield ReaderTask.ask<Logger>();
+        const count: number = yield Task.pack(3);
+        logger.log(`${config.baseUrl} ${count}`);
+        return count * 2;
+      });
+
+      const result = await program
+        .provide({
+          baseUrl: "/api",
+          log: (message) => messages.push(message),
+        })
+        .run();
+
+      expect(result).toBe(6);
+      expect(messages).toEqual(["/api 3"]);
+    });
+
+    test("should restart the generator on every run", async () => {
+      const task = ReaderTask.do(function* () {
+        const value: number = yield ReaderTask.pack(1);
+        return value + 1;
+      }).provide({});
+
+      expect(await task.run()).toBe(2);
+      expect(await task.run()).toBe(2);
+    });
+  });
+
+  test("isReaderTask should identify reader tasks", () => {
+    expect(ReaderTask.isReaderTask(ReaderTask.pack(1))).toBe(true);
+    expect(ReaderTask.isReaderTask(Task.pack(1))).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { Resource } from "../src/Resource";
+import { Task } from "../src/Task";
+
+describe("Resource laws and behavior", () => {
+  const tracked = (events: string[]) => (name: string) =>
+    Resource.acquireRelease(
+      Task.from(() => {
+        events.push(`acquire ${name}`);
+        return Promise.resolve(name);
+      }),
+      (value) =>
+        Task.from(() => {
+          events.push(`release ${value}`);
+          return Promise.resolve();
+        })
+    );
+
+  /**
+   * ファンクター則のテスト。
+   * 1. 恒等則（Identity）
+   * 2. 合成則（Composition）
+   */
+  describe("Functor laws", () => {
+    test("Identity", async () => {
+      const resource = Resource.pack(10);
+
+      // Identity: `<$>` id = id
+      const result = await resource["<$>"]((x) => x)
+        .use(Task.pack)
+        .run();
+      expect(result).toBe(await resource.use(Task.pack).run());
+    });
+
+    test("Composition", async () => {
+      const f = (x: number) => x + 1;
+      const g = (x: number) => x * 2;
+      const resource = Resource.pack(10);
+
+      // Composition: `<$>` (f . g) = (`<$>` f) . (`<$>` g)
+      const result = await resource["<$>"]((x) => f(g(x)))
+        .use(Task.pack)
+        .run();
+      const chained = await resource["<$>"](g)["<$>"](f).use(Task.pack).run();
+      expect(result).toBe(chained);
+    });
+  });
+
+  /**
+   * リソース管理のテスト。
+   * 1. use の後にリソースが解放されることを確認。
+   * 2. flatMap / all で合成したリソースが逆順に解放されることを確認。
+   * 3. 後続の取得や使用が失敗しても、取得済みのリソースが解放されることを確認。
+   */
+  describe("Resource management", () => {
+    test("releases the resource after use", async () => {
+      const events: string[] = [];
+      const result = await tracked(events)("db")
+        .use((db) => Task.pack(`query ${db}`))
+        .run();
+
+      expect(result).toBe("query db");
+      expect(events).toEqual(["acquire db", "release db"]);
+    });
+
+    test("flatMap releases resources in reverse order", async () => {
+      const events: string[] = [];
+      const resource = tracked(events);
+      const combined = resource("db")[">>="]((db) =>
+        resource(`${db}-tx`)["<$>"]((tx) => [db, tx])
+      );
+
+      await combined.use(() => Task.pack(null)).run();
+
+      expect(events).toEqual([
+        "acquire db",
+        "acquire db-tx",
+        "release db-tx",
+        "release db",
+      ]);
+    });
+
+    test("all combines resources and releases them in reverse order", async () => {
+      const events: string[] = [];
+      const resource = tracked(events);
+
+      const result = await Resource.all([
+        resource("a"),
+        resource("b"),
+        Resource.pack(3),
+      ])
+        .use(([a, b, c]) => Task.pack(`${a}${b}${c}`))
+        .run();
+
+      expect(result).toBe("ab3");
+      expect(events).toEqual([
+        "acquire a",
+        "acquire b",
+        "release b",
+        "release a",
+      ]);
+    });
+
+    test("releases acquired resources when a later acquisition fails", async () => {
+      const events: string[] = [];
+      const failing = Resource.acquireRelease(
+        Task.tryTask<string>(() => Promise.reject(new Error("acquire failed"))),
+        () => Task.pack(undefined)
+      );
+
+      const task = Resource.all([tracked(events)("a"), failing]).use(() =>
+        Task.pack(null)
+      );
+
+      await expect(task.run()).rejects.toThrow("acquire failed");
+      expect(events).toEqual(["acquire a", "release a"]);
+    });
+
+    test("releases every resource when the use fails", async () => {
+      const events: string[] = [];
+      const resource = tracked(events);
+      const task = Resource.all([resource("a"), resource("b")]).use(() =>
+        Task.tryTask(() => Promise.reject(new Error("use failed")))
+      );
+
+      await expect(task.run()).rejects.toThrow("use failed");
+      expect(events).toEqual([
+        "acquire a",
+        "acquire b",
+        "release b",
+        "release a",
+      ]);
+    });
+
+    test("isResource identifies resources", () => {
+      expect(Resource.isResource(Resource.pack(1))).toBe(true);
+      expect(Resource.isResource(Task.pack(1))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { Maybe } from "../src/Maybe";
+import { Schedule } from "../src/Schedule";
+
+describe("Schedule behavior", () => {
+  const delays = <A>(schedule: Schedule<A>, input: A, steps: number) =>
+    Array.from({ length: steps }, (_, i) =>
+      schedule.next(input, { attempt: i + 1, elapsed: 0 }).getValue()
+    );
+
+  test("spaced should always wait the same time", () => {
+    expect(delays(Schedule.spaced(100), undefined, 3)).toEqual([100, 100, 100]);
+  });
+
+  test("fixed should subtract the elapsed time from the interval", () => {
+    const schedule = Schedule.fixed(100);
+
+    expect(
+      schedule.next(undefined, { attempt: 1, elapsed: 30 }).getValue()
+    ).toBe(70);
+    expect(
+      schedule.next(undefined, { attempt: 2, elapsed: 250 }).getValue()
+    ).toBe(0);
+  });
+
+  test("exponential should grow the delay", () => {
+    expect(delays(Schedule.exponential(100), undefined, 4)).toEqual([
+      100, 200, 400, 800,
+    ]);
+    expect(delays(Schedule.exponential(10, 3), undefined, 3)).toEqual([
+      10, 30, 90,
+    ]);
+  });
+
+  test("recurs should stop after the given repetitions", () => {
+    expect(delays(Schedule.recurs(2), undefined, 3)).toEqual([0, 0, null]);
+  });
+
+  test("until should stop once the predicate holds", () => {
+    const schedule = Schedule.until((status: string) => status === "done");
+
+    expect(
+      schedule.next("pending", { attempt: 1, elapsed: 0 }).getValue()
+    ).toBe(0);
+    expect(
+      Maybe.isNothing(schedule.next("done", { attempt: 2, elapsed: 0 }))
+    ).toBe(true);
+  });
+
+  test("upTo should limit the repetitions", () => {
+    expect(delays(Schedule.spaced(50).upTo(2), undefined, 3)).toEqual([
+      50,
+      50,
+      null,
+    ]);
+  });
+
+  test("intersect should continue while both continue with the longer delay", () => {
+    const schedule = Schedule.exponential(10).intersect(Schedule.spaced(25));
+
+    expect(delays(schedule, undefined, 3)).toEqual([25, 25, 40]);
+    expect(
+      delays(Schedule.spaced(10).intersect(Schedule.recurs(1)), undefined, 2)
+    ).toEqual([10, null]);
+  });
+
+  test("union should continue while either continues with the shorter delay", () => {
+    const schedule = Schedule.spaced(100)
+      .upTo(1)
+      .union(Schedule.spaced(300).upTo(2));
+
+    expect(delays(schedule, undefined, 3)).toEqual([100, 300, null]);
+  });
+
+  test("jittered should scale the delay randomly within the factor", () => {
+    const random = vi.spyOn(Math, "random");
+    random.mockReturnValueOnce(0).mockReturnValueOnce(1);
+    const schedule = Schedule.spaced(100).jittered(0.2);
+
+    expect(delays(schedule, undefined, 2)).toEqual([80, 120]);
+    random.mockRestore();
+  });
+
+  test("from should create a custom schedule", () => {
+    const schedule = Schedule.from((input: number) =>
+      input < 3 ? Maybe.just(input * 10) : Maybe.nothing()
+    );
+
+    expect(schedule.next(2, { attempt: 1, elapsed: 0 }).getValue()).toBe(20);
+    expect(Maybe.isNothing(schedule.next(3, { attempt: 1, elapsed: 0 }))).toBe(
+      true
+    );
+    expect(Schedule.isSchedule(schedule)).toBe(true);
+    expect(Schedule.isSchedule({})).toBe(false);
+  });
+});
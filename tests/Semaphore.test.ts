@@ -0,0 +1,190 @@
+import { Mutex, Semaphore } from "../src/Semaphore";
+import { CancellationError, Task } from "../src/Task";
+
+describe("Semaphore behavior", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const tracked = (state: { active: number; peak: number }, ms: number) =>
+    Task.from(() => {
+      state.active++;
+      state.peak = Math.max(state.peak, state.active);
+      return Promise.resolve();
+    })
+      .flatMap(() => Task.sleep(ms))
+      .map(() => {
+        state.active--;
+        return ms;
+      });
+
+  test("withPermit should cap the number of concurrent tasks", async () => {
+    const semaphore = Semaphore.create(2);
+    const state = { active: 0, peak: 0 };
+    const promise = Task.all(
+      [10, 20, 30, 40].map((ms) => semaphore.withPermit(tracked(state, ms)))
+    ).run();
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual([10, 20, 30, 40]);
+    expect(state.peak).toBe(2);
+    expect(semaphore.available()).toBe(2);
+  });
+
+  test("should admit waiters in FIFO order", async () => {
+    const semaphore = Semaphore.create(1);
+    const order: number[] = [];
+    const job = (n: number) =>
+      semaphore.withPermit(
+        Task.sleep(10).map(() => {
+          order.push(n);
+        })
+      );
+    const promise = Task.all([job(1), job(2), job(3), job(4)]).run();
+
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(order).toEqual([1, 2, 3, 4]);
+  });
+
+  test("should not let small requests overtake a larger waiter", async () => {
+    const semaphore = Semaphore.create(2);
+    const order: string[] = [];
+    const job = (name: string, permits: number, ms: number) =>
+      semaphore.withPermits(
+        permits,
+        Task.sleep(ms).map(() => {
+          order.push(name);
+        })
+      );
+    const promise = Task.all([
+      job("a", 1, 10),
+      job("b", 2, 10),
+      job("c", 1, 1),
+    ]).run();
+
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(order).toEqual(["a", "b", "c"]);
+  });
+
+  test("should release the permit when the task fails", async () => {
+    const semaphore = Semaphore.create(1);
+    const failing = semaphore.withPermit(
+      Task.tryTask<number>(() => Promise.reject(new Error("boom")))
+    );
+
+    await expect(failing.run()).rejects.toThrow("boom");
+    expect(semaphore.available()).toBe(1);
+  });
+
+  test("a cancelled waiter should leave the queue", async () => {
+    const semaphore = Semaphore.create(1);
+    const controller = new AbortController();
+    const holder = semaphore.withPermit(Task.sleep(100)).run();
+    const waiter = semaphore
+      .withPermit(Task.pack("never"))
+      .run(controller.signal);
+    await Promise.resolve();
+    expect(semaphore.pending()).toBe(1);
+
+    controller.abort();
+
+    await expect(waiter).rejects.toBeInstanceOf(CancellationError);
+    expect(semaphore.pending()).toBe(0);
+    await vi.runAllTimersAsync();
+    await holder;
+    expect(semaphore.available()).toBe(1);
+  });
+
+  test("should release the permit when the running task is cancelled", async () => {
+    const semaphore = Semaphore.create(1);
+    const controller = new AbortController();
+    const promise = semaphore
+      .withPermit(Task.sleep(100))
+      .run(controller.signal);
+    await Promise.resolve();
+    expect(semaphore.available()).toBe(0);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    await vi.runAllTimersAsync();
+    expect(semaphore.available()).toBe(1);
+  });
+
+  test("should reject requests for more permits than exist", async () => {
+    const semaphore = Semaphore.create(1);
+    await expect(
+      semaphore.withPermits(2, Task.pack(1)).run()
+    ).rejects.toBeInstanceOf(RangeError);
+  });
+
+  test("should reject requests for a number of permits that is not a positive integer", async () => {
+    const semaphore = Semaphore.create(2);
+    const task = vi.fn(() => Promise.resolve(1));
+
+    for (const count of [0, -3, 1.5, NaN]) {
+      await expect(
+        semaphore.withPermits(count, Task.from(task)).run()
+      ).rejects.toBeInstanceOf(RangeError);
+    }
+    expect(task).not.toHaveBeenCalled();
+    expect(semaphore.available()).toBe(2);
+  });
+
+  test("create should reject a number of permits that is not a positive integer", () => {
+    for (const permits of [0, -1, 1.5, NaN]) {
+      expect(() => Semaphore.create(permits)).toThrow(RangeError);
+    }
+  });
+
+  test("isSemaphore should identify semaphores", () => {
+    expect(Semaphore.isSemaphore(Semaphore.create(1))).toBe(true);
+    expect(Semaphore.isSemaphore(Mutex.create())).toBe(false);
+  });
+});
+
+describe("Mutex behavior", () => {
+  test("should run guarded tasks one at a time", async () => {
+    const mutex = Mutex.create();
+    const events: string[] = [];
+    const job = (name: string) =>
+      mutex.withPermit(
+        Task.from(() => {
+          events.push(`start ${name}`);
+          return Promise.resolve();
+        }).map(() => {
+          events.push(`end ${name}`);
+        })
+      );
+
+    await Task.all([job("a"), job("b")]).run();
+
+    expect(events).toEqual(["start a", "end a", "start b", "end b"]);
+    expect(mutex.isLocked()).toBe(false);
+  });
+
+  test("isLocked should reflect a running task", async () => {
+    const mutex = Mutex.create();
+    let locked = false;
+    await mutex
+      .withPermit(
+        Task.from(() => {
+          locked = mutex.isLocked();
+          return Promise.resolve();
+        })
+      )
+      .run();
+
+    expect(locked).toBe(true);
+    expect(Mutex.isMutex(mutex)).toBe(true);
+  });
+});
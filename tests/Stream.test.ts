@@ -0,0 +1,361 @@
+import { Maybe } from "../src/Maybe";
+import { Stream } from "../src/Stream";
+import { CancellationError, Task } from "../src/Task";
+
+describe("Stream behavior", () => {
+  const counter = (pulled: number[]) =>
+    Stream.unfold(0, (n) =>
+      Task.from(() => {
+        pulled.push(n);
+        return Promise.resolve(Maybe.just<[number, number]>([n, n + 1]));
+      })
+    );
+
+  /**
+   * ファンクター則のテスト。
+   * 1. 恒等則（Identity）
+   * 2. 合成則（Composition）
+   */
+  describe("Functor laws", () => {
+    test("Identity", async () => {
+      const stream = Stream.of(1, 2, 3);
+
+      // Identity: `<$>` id = id
+      const result = await stream["<$>"]((x) => x)
+        .runCollect()
+        .run();
+      expect(result).toEqual(await stream.runCollect().run());
+    });
+
+    test("Composition", async () => {
+      const stream = Stream.of(1, 2, 3);
+      const f = (x: number) => x + 1;
+      const g = (x: number) => x * 2;
+
+      // Composition: `<$>` (f . g) = (`<$>` f) . (`<$>` g)
+      const left = await stream["<$>"]((x) => f(g(x)))
+        .runCollect()
+        .run();
+      const right = await stream["<$>"](g)["<$>"](f).runCollect().run();
+      expect(left).toEqual(right);
+    });
+  });
+
+  describe("Basic operations", () => {
+    test("from should accept sync and async iterables", async () => {
+      async function* values() {
+        yield 1;
+        yield 2;
+      }
+      expect(await Stream.from([1, 2]).runCollect().run()).toEqual([1, 2]);
+      expect(await Stream.from(values()).runCollect().run()).toEqual([1, 2]);
+    });
+
+    test("fromTask should emit the value of the task", async () => {
+      const result = await Stream.fromTask(Task.pack(42)).runCollect().run();
+      expect(result).toEqual([42]);
+    });
+
+    test("flatMap should concatenate the inner streams in order", async () => {
+      const result = await Stream.of(1, 2)
+        [">>="]((x) => Stream.of(x, x * 10))
+        .runCollect()
+        .run();
+      expect(result).toEqual([1, 10, 2, 20]);
+    });
+
+    test("filter should keep only matching values", async () => {
+      const result = await Stream.of(1, 2, 3, 4)
+        .filter((x) => x % 2 === 0)
+        .runCollect()
+        .run();
+      expect(result).toEqual([2, 4]);
+    });
+
+    test("chunk should group values and emit the remainder", async () => {
+      const result = await Stream.of(1, 2, 3, 4, 5).chunk(2).runCollect().run();
+      expect(result).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    test("zip should pair values and end with the shorter stream", async () => {
+      const result = await Stream.of(1, 2, 3)
+        .zip(Stream.of("a", "b"))
+        .runCollect()
+        .run();
+      expect(result).toEqual([
+        [1, "a"],
+        [2, "b"],
+      ]);
+    });
+
+    test("runForEach should wait for each returned task", async () => {
+      const events: string[] = [];
+      await Stream.of(1, 2)
+        .runForEach((x) =>
+          Task.sleep(10).map(() => {
+            events.push(`done ${x}`);
+          })
+        )
+        .run();
+      expect(events).toEqual(["done 1", "done 2"]);
+    });
+
+    test("should be lazy and rerunnable", async () => {
+      const pulled: number[] = [];
+      const task = counter(pulled).take(2).runCollect();
+      expect(pulled).toEqual([]);
+
+      expect(await task.run()).toEqual([0, 1]);
+      expect(await task.run()).toEqual([0, 1]);
+    });
+  });
+
+  describe("Backpressure and early termination", () => {
+    test("take should not pull beyond the requested values", async () => {
+      const pulled: number[] = [];
+      const result = await counter(pulled).take(3).runCollect().run();
+
+      expect(result).toEqual([0, 1, 2]);
+      expect(pulled).toEqual([0, 1, 2]);
+    });
+
+    test("unfold should follow a pagination cursor until Nothing", async () => {
+      const pages: Record<string, { items: string[]; next?: string }> = {
+        start: { items: ["a", "b"], next: "p2" },
+        p2: { items: ["c"], next: "p3" },
+        p3: { items: ["d"] },
+      };
+      const result = await Stream.unfold<string | undefined, string[]>(
+        "start",
+        (cursor) =>
+          Task.pack(
+            cursor === undefined
+              ? Maybe.nothing()
+              : Maybe.just<[string[], string | undefined]>([
+                  pages[cursor].items,
+                  pages[cursor].next,
+                ])
+          )
+      )
+        .flatMap((items) => Stream.from(items))
+        .runCollect()
+        .run();
+
+      expect(result).toEqual(["a", "b", "c", "d"]);
+    });
+
+    test("bracket should release when the stream completes", async () => {
+      const events: string[] = [];
+      const result = await Stream.bracket(
+        Task.from(() => {
+          events.push("acquire");
+          return Promise.resolve([1, 2]);
+        }),
+        (values) => Stream.from(values),
+        () =>
+          Task.from(() => {
+            events.push("release");
+            return Promise.resolve();
+          })
+      )
+        .runCollect()
+        .run();
+
+      expect(result).toEqual([1, 2]);
+      expect(events).toEqual(["acquire", "release"]);
+    });
+
+    test("bracket should release once when stopped early", async () => {
+      const events: string[] = [];
+      const pulled: number[] = [];
+      const result = await Stream.bracket(
+        Task.from(() => {
+          events.push("acquire");
+          return Promise.resolve("handle");
+        }),
+        () => counter(pulled),
+        () =>
+          Task.from(() => {
+            events.push("release");
+            return Promise.resolve();
+          })
+      )
+        .take(2)
+        .runCollect()
+        .run();
+
+      expect(result).toEqual([0, 1]);
+      expect(pulled).toEqual([0, 1]);
+      expect(events).toEqual(["acquire", "release"]);
+    });
+
+    test("bracket should release when the stream fails", async () => {
+      const events: string[] = [];
+      const task = Stream.bracket(
+        Task.pack("handle"),
+        () =>
+          Stream.of(1, 2).map((x) => {
+            if (x === 2) throw new Error("boom");
+            return x;
+          }),
+        () =>
+          Task.from(() => {
+            events.push("release");
+            return Promise.resolve();
+          })
+      ).runCollect();
+
+      await expect(task.run()).rejects.toThrow("boom");
+      expect(events).toEqual(["release"]);
+    });
+
+    test("bracket should release a resource acquired after cancellation", async () => {
+      const events: string[] = [];
+      const controller = new AbortController();
+      let finishAcquire = () => {};
+      const task = Stream.bracket(
+        Task.from(
+          (signal) =>
+            new Promise<string>((resolve) => {
+              finishAcquire = () => {
+                events.push(signal.aborted ? "acquire aborted" : "acquire");
+                resolve("handle");
+              };
+            })
+        ),
+        () => Stream.of(1, 2),
+        (handle) =>
+          Task.from((signal) => {
+            events.push(
+              signal.aborted ? "release aborted" : `release ${handle}`
+            );
+            return Promise.resolve();
+          })
+      ).runCollect();
+
+      const result = task.run(controller.signal).catch((e) => e);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort("stop");
+      expect(await result).toBeInstanceOf(CancellationError);
+
+      finishAcquire();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(events).toEqual(["acquire", "release handle"]);
+    });
+  });
+
+  describe("Concurrency", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("mapConcurrent should bound concurrency and keep order", async () => {
+      let active = 0;
+      let peak = 0;
+      const task = Stream.of(30, 10, 20, 5)
+        .mapConcurrent(2, (ms) =>
+          Task.from(() => {
+            active++;
+            peak = Math.max(peak, active);
+            return Promise.resolve();
+          })
+            .flatMap(() => Task.sleep(ms))
+            .map(() => {
+              active--;
+              return ms;
+            })
+        )
+        .runCollect();
+
+      const promise = task.run();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual([30, 10, 20, 5]);
+      expect(peak).toBe(2);
+    });
+
+    test("mapConcurrent should cancel in-flight tasks when stopped early", async () => {
+      const cancelled: number[] = [];
+      const task = Stream.of(1, 2, 3)
+        .mapConcurrent(3, (x) =>
+          Task.from(
+            (signal) =>
+              new Promise<number>((resolve) => {
+                signal.addEventListener("abort", () => cancelled.push(x));
+                setTimeout(() => resolve(x), x * 10);
+              })
+          )
+        )
+        .take(1)
+        .runCollect();
+
+      const promise = task.run();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual([1]);
+      expect(cancelled).toEqual([2, 3]);
+    });
+
+    test("merge should interleave values as they arrive", async () => {
+      const ticks = (ms: number, label: string) =>
+        Stream.unfold(1, (n) =>
+          n > 2
+            ? Task.pack(Maybe.nothing())
+            : Task.sleep(ms).map(() =>
+                Maybe.just<[string, number]>([`${label}${n}`, n + 1])
+              )
+        );
+      const task = ticks(10, "a").merge(ticks(15, "b")).runCollect();
+
+      const promise = task.run();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual(["a1", "b1", "a2", "b2"]);
+    });
+
+    test("merge should stop both sides when stopped early", async () => {
+      const left: number[] = [];
+      const right: number[] = [];
+      const result = await counter(left)
+        .merge(counter(right))
+        .take(3)
+        .runCollect()
+        .run();
+
+      expect(result).toHaveLength(3);
+      expect(left.length + right.length).toBeLessThanOrEqual(5);
+    });
+  });
+
+  describe("Cancellation", () => {
+    test("runCollect should reject when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const pulled: number[] = [];
+      const promise = counter(pulled)
+        .mapConcurrent(1, (x) => Task.sleep(10).map(() => x))
+        .runCollect()
+        .run(controller.signal);
+
+      setTimeout(() => controller.abort(), 25);
+      await expect(promise).rejects.toBeInstanceOf(CancellationError);
+      expect(pulled.length).toBeLessThan(10);
+    });
+
+    test("toAsyncIterable should support for await", async () => {
+      const values: number[] = [];
+      for await (const value of Stream.of(1, 2, 3).toAsyncIterable()) {
+        values.push(value);
+      }
+      expect(values).toEqual([1, 2, 3]);
+    });
+  });
+
+  test("isStream should identify streams", () => {
+    expect(Stream.isStream(Stream.of(1))).toBe(true);
+    expect(Stream.isStream(Task.pack(1))).toBe(false);
+  });
+});
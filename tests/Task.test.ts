@@ -1,4 +1,16 @@
-import { Task } from "../src/Task";
+import { EventEmitter } from "node:events";
+import { Clock } from "../src/Clock";
+import { Either } from "../src/Either";
+import { Schedule } from "../src/Schedule";
+import {
+  CancellationError,
+  NodeCallback,
+  Task,
+  TaskAggregateError,
+  TimeoutError,
+  TraceSpan,
+  Tracer,
+} from "../src/Task";
 
 describe("Task laws", () => {
   /**
@@ -170,3 +182,2115 @@ describe("Task laws", () => {
     });
   });
 });
+
+describe("Task cancellation", () => {
+  /**
+   * キャンセルのテスト。
+   * 1. 中断済みのシグナルで実行すると CancellationError で拒否されることを確認。
+   * 2. 実行中に中断すると未実行のステップがスキップされることを確認。
+   * 3. シグナルが map / flatMap / apply / do / tryCatch を通じて伝播されることを確認。
+   */
+  const never = <T>() =>
+    Task.from<T>(
+      (signal) =>
+        new Promise((_, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        )
+    );
+
+  test("run rejects immediately with an aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = vi.fn(() => Promise.resolve(10));
+
+    await expect(Task.from(fn).run(controller.signal)).rejects.toBeInstanceOf(
+      CancellationError
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("aborting skips pending steps", async () => {
+    const controller = new AbortController();
+    const step = vi.fn((x: number) => x + 1);
+    const promise = never<number>()["<$>"](step).run(controller.signal);
+
+    controller.abort("stop");
+
+    const error = await promise.catch((e) => e);
+    expect(error).toBeInstanceOf(CancellationError);
+    expect(error.reason).toBe("stop");
+    expect(step).not.toHaveBeenCalled();
+  });
+
+  test("signal is threaded through map, flatMap and apply", async () => {
+    const controller = new AbortController();
+    const seen: AbortSignal[] = [];
+    const capture = Task.from((signal) => {
+      seen.push(signal);
+      return Promise.resolve(1);
+    });
+
+    await capture["<$>"]((x) => x + 1)
+      [">>="](() => capture)
+      ["<$>"]((x) => (y: number) => x + y)
+      ["<*>"](capture)
+      .run(controller.signal);
+
+    expect(seen).toHaveLength(3);
+    expect(new Set(seen).size).toBe(1);
+  });
+
+  test("each run gets a signal of its own that follows the given one", async () => {
+    const controller = new AbortController();
+    const seen: AbortSignal[] = [];
+    const capture = Task.from((signal) => {
+      seen.push(signal);
+      return new Promise<never>(() => {});
+    });
+
+    const first = capture.run(controller.signal).catch((e) => e);
+    const second = capture.run(controller.signal).catch((e) => e);
+    controller.abort("stop");
+
+    expect(seen[0]).not.toBe(seen[1]);
+    expect(seen.map((signal) => signal.aborted)).toEqual([true, true]);
+    expect((await first).reason).toBe("stop");
+    expect((await second).reason).toBe("stop");
+  });
+
+  test("flatMap stops before starting the next task", async () => {
+    const controller = new AbortController();
+    const next = vi.fn(() => Task.pack(2));
+    const first = Task.from(() => {
+      controller.abort();
+      return Promise.resolve(1);
+    });
+
+    await expect(
+      first[">>="](next).run(controller.signal)
+    ).rejects.toBeInstanceOf(CancellationError);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  test("do notation stops at the cancelled step", async () => {
+    const controller = new AbortController();
+    const after = vi.fn();
+    const task = Task.do(function* () {
+      const x: number = yield Task.pack(1);
+      yield never<number>();
+      after();
+      return x;
+    });
+    const promise = task.run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  test("do notation runs finally blocks when cancelled", async () => {
+    const controller = new AbortController();
+    const events: string[] = [];
+    const task = Task.do(function* () {
+      try {
+        const value: number = yield never<number>();
+        events.push("after");
+        return value;
+      } finally {
+        events.push("finally");
+      }
+    });
+    const promise = task.run(controller.signal);
+    const result = promise.catch((e) => e);
+
+    controller.abort();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(await result).toBeInstanceOf(CancellationError);
+    expect(events).toEqual(["finally"]);
+  });
+
+  test("do notation throws failures of yielded tasks into the generator", async () => {
+    const events: string[] = [];
+    const task = Task.do(function* () {
+      try {
+        yield Task.tryTask<string>(() => Promise.reject(new Error("boom")));
+        events.push("after");
+        return "unreachable";
+      } catch (error) {
+        events.push(`caught ${(error as Error).message}`);
+        const fallback: string = yield Task.pack("fallback");
+        return fallback;
+      } finally {
+        events.push("finally");
+      }
+    });
+
+    await expect(task.run()).resolves.toBe("fallback");
+    expect(events).toEqual(["caught boom", "finally"]);
+  });
+
+  test("tryCatch receives the signal and does not recover from cancellation", async () => {
+    const controller = new AbortController();
+    const onError = vi.fn(() => 0);
+    const task = Task.tryCatch(
+      (signal) =>
+        new Promise<number>((_, reject) =>
+          signal.addEventListener("abort", () => reject(new Error("aborted")))
+        ),
+      onError
+    );
+    const promise = task.run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
+
+describe("Task timeout and racing", () => {
+  /**
+   * タイムアウトと競争のテスト。
+   * 1. timeout が制限時間を超えると TimeoutError で失敗し、処理をキャンセルすることを確認。
+   * 2. race が最初に完了したタスクの結果を返し、残りをキャンセルすることを確認。
+   * 3. any が最初に成功したタスクの値を返し、全て失敗した場合は TaskAggregateError で失敗することを確認。
+   */
+  const delayed = <T>(ms: number, value: T, onAbort?: () => void) =>
+    Task.from<T>(
+      (signal) =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(() => resolve(value), ms);
+          signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            onAbort?.();
+            reject(signal.reason);
+          });
+        })
+    );
+  const failing = (ms: number, message: string) =>
+    delayed(ms, null).flatMap(() =>
+      Task.tryTask(() => Promise.reject(new Error(message)))
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("timeout resolves when the task finishes in time", async () => {
+    const promise = delayed(50, "done").timeout(100).run();
+    await vi.advanceTimersByTimeAsync(50);
+
+    await expect(promise).resolves.toBe("done");
+  });
+
+  test("timeout fails with TimeoutError and cancels the task", async () => {
+    const onAbort = vi.fn();
+    const promise = delayed(200, "late", onAbort).timeout(100).run();
+    const result = promise.catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const error = await result;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.ms).toBe(100);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  test("race settles with the first task and cancels the losers", async () => {
+    const onAbort = vi.fn();
+    const promise = Task.race([
+      delayed(100, "slow", onAbort),
+      delayed(10, 42),
+    ]).run();
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(promise).resolves.toBe(42);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  test("race propagates the first failure", async () => {
+    const promise = Task.race([delayed(100, 1), failing(10, "boom")]).run();
+    const result = promise.catch((e) => e);
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect((await result).message).toBe("boom");
+  });
+
+  test("any resolves with the first success", async () => {
+    const promise = Task.any([
+      failing(5, "first"),
+      delayed(20, "second"),
+      delayed(50, "third"),
+    ]).run();
+    await vi.advanceTimersByTimeAsync(20);
+
+    await expect(promise).resolves.toBe("second");
+  });
+
+  test("any fails with TaskAggregateError when every task fails", async () => {
+    const promise = Task.any([failing(5, "a"), failing(10, "b")]).run();
+    const result = promise.catch((e) => e);
+    await vi.advanceTimersByTimeAsync(10);
+
+    const error = await result;
+    expect(error).toBeInstanceOf(TaskAggregateError);
+    expect(error.errors.map((e: Error) => e.message)).toEqual(["a", "b"]);
+  });
+
+  test("any unlinks each task from the parent once it settles", async () => {
+    const controller = new AbortController();
+    const seen: AbortSignal[] = [];
+    const capture = <T>(task: Task<T>) =>
+      Task.from((signal) => {
+        seen.push(signal);
+        return task.run(signal);
+      });
+    const promise = Task.any([
+      capture(failing(5, "first")),
+      capture(delayed(100, "second")),
+    ]).run(controller.signal);
+    const result = promise.catch((e) => e);
+    await vi.advanceTimersByTimeAsync(5);
+
+    controller.abort("stop");
+
+    expect(seen.map((signal) => signal.aborted)).toEqual([false, true]);
+    expect(await result).toBeInstanceOf(CancellationError);
+  });
+
+  test("cancelling a race cancels every task", async () => {
+    const controller = new AbortController();
+    const onAbort = vi.fn();
+    const promise = Task.race([
+      delayed(100, 1, onAbort),
+      delayed(100, 2, onAbort),
+    ]).run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(onAbort).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("Task retry", () => {
+  /**
+   * リトライのテスト。
+   * 1. 成功するまで最大試行回数まで再実行されることを確認。
+   * 2. fixed / exponential / jitter の待機時間が計算されることを確認。
+   * 3. shouldRetry、合計時間の上限、キャンセルでリトライが止まることを確認。
+   */
+  const flaky = (failures: number) => {
+    let calls = 0;
+    const fn = vi.fn(() => {
+      calls += 1;
+      return calls <= failures
+        ? Promise.reject(new Error(`failure ${calls}`))
+        : Promise.resolve(calls);
+    });
+    return { fn, task: Task.from(fn) };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("retries until the task succeeds", async () => {
+    const { fn, task } = flaky(2);
+    const onAttempt = vi.fn();
+    const promise = task.retry({ maxAttempts: 3, onAttempt }).run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe(3);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onAttempt.mock.calls).toEqual([[1], [2], [3]]);
+  });
+
+  test("fails with the last error after the maximum attempts", async () => {
+    const { fn, task } = flaky(5);
+    const promise = task.retry({ maxAttempts: 2 }).run();
+    const result = promise.catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe("failure 2");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test("waits with exponential backoff capped by maxDelay", async () => {
+    const { task } = flaky(4);
+    const onRetry = vi.fn();
+    const promise = task
+      .retry({
+        maxAttempts: 5,
+        delay: 100,
+        backoff: "exponential",
+        maxDelay: 300,
+        onRetry,
+      })
+      .run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe(5);
+    expect(onRetry.mock.calls.map(([, , delay]) => delay)).toEqual([
+      100, 200, 300, 300,
+    ]);
+  });
+
+  test("does not wait before a retry that has not elapsed", async () => {
+    const { fn, task } = flaky(1);
+    const promise = task.retry({ delay: 100 }).run();
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(promise).resolves.toBe(2);
+  });
+
+  test("randomizes delays with jitter", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const { task } = flaky(1);
+    const onRetry = vi.fn();
+    const promise = task.retry({ delay: 100, jitter: true, onRetry }).run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 50);
+    vi.restoreAllMocks();
+  });
+
+  test("stops when shouldRetry returns false", async () => {
+    const { fn, task } = flaky(3);
+    const shouldRetry = vi.fn((_: unknown, attempt: number) => attempt < 2);
+    const promise = task.retry({ maxAttempts: 5, shouldRetry }).run();
+    const result = promise.catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe("failure 2");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test("stops when the time budget would be exceeded", async () => {
+    const { fn, task } = flaky(5);
+    const promise = task
+      .retry({ maxAttempts: 10, delay: 100, maxElapsed: 250 })
+      .run();
+    const result = promise.catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe("failure 3");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test("cancellation stops pending retries", async () => {
+    const controller = new AbortController();
+    const { fn, task } = flaky(5);
+    const promise = task
+      .retry({ maxAttempts: 5, delay: 100 })
+      .run(controller.signal);
+    await vi.advanceTimersByTimeAsync(50);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    await vi.runAllTimersAsync();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test("composes with flatMap", async () => {
+    const { task } = flaky(1);
+    const promise = Task.pack(10)
+      [">>="]((x) => task.retry()["<$>"]((y) => x + y))
+      .run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe(12);
+  });
+});
+
+describe("Task collections", () => {
+  /**
+   * 複数タスクの実行のテスト。
+   * 1. all / allRecord が結果の順序とキーを保持することを確認。
+   * 2. traverse が concurrency を超えて同時実行しないことを確認。
+   * 3. 失敗時に即座に失敗し、実行中のタスクをキャンセルすることを確認。
+   * 4. sequence がデフォルトで順番に実行することを確認。
+   */
+  const tracked = () => {
+    let running = 0;
+    let maxRunning = 0;
+    const aborted: number[] = [];
+    const make = (ms: number, value: number) =>
+      Task.from<number>(
+        (signal) =>
+          new Promise((resolve, reject) => {
+            running += 1;
+            maxRunning = Math.max(maxRunning, running);
+            const onAbort = () => {
+              clearTimeout(timer);
+              running -= 1;
+              aborted.push(value);
+              reject(signal.reason);
+            };
+            const timer = setTimeout(() => {
+              signal.removeEventListener("abort", onAbort);
+              running -= 1;
+              resolve(value);
+            }, ms);
+            signal.addEventListener("abort", onAbort);
+          })
+      );
+    return { make, aborted, maxRunning: () => maxRunning };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("all preserves the order of results", async () => {
+    const { make } = tracked();
+    const promise = Task.all([make(30, 1), make(10, 2), make(20, 3)]).run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual([1, 2, 3]);
+  });
+
+  test("all infers tuple types", async () => {
+    const task: Task<[number, string]> = Task.all([
+      Task.pack(1),
+      Task.pack("a"),
+    ]);
+
+    await expect(task.run()).resolves.toEqual([1, "a"]);
+  });
+
+  test("allRecord collects results under the same keys", async () => {
+    const task: Task<{ id: number; name: string }> = Task.allRecord({
+      id: Task.pack(1),
+      name: Task.pack("Alice"),
+    });
+
+    await expect(task.run()).resolves.toEqual({ id: 1, name: "Alice" });
+  });
+
+  test("traverse respects the concurrency limit", async () => {
+    const { make, maxRunning } = tracked();
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    const promise = Task.traverse(items, (i) => make(10 + (i % 3), i * 2), {
+      concurrency: 3,
+    }).run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual(items.map((i) => i * 2));
+    expect(maxRunning()).toBe(3);
+  });
+
+  test("traverse rejects a concurrency that is not a positive integer", async () => {
+    const fn = vi.fn((i: number) => Task.pack(i));
+
+    for (const concurrency of [0, -1, 1.5, NaN]) {
+      await expect(
+        Task.traverse([1, 2], fn, { concurrency }).run()
+      ).rejects.toBeInstanceOf(RangeError);
+    }
+    expect(fn).not.toHaveBeenCalled();
+    await expect(
+      Task.traverse([1, 2], fn, { concurrency: Infinity }).run()
+    ).resolves.toEqual([1, 2]);
+  });
+
+  test("traverse fails fast and cancels running siblings", async () => {
+    const { make, aborted } = tracked();
+    const start = vi.fn();
+    const promise = Task.traverse(
+      [0, 1, 2, 3],
+      (i) => {
+        start(i);
+        return i === 1
+          ? make(5, i)[">>="](() =>
+              Task.tryTask(() => Promise.reject(new Error("boom")))
+            )
+          : make(100, i);
+      },
+      { concurrency: 2 }
+    ).run();
+    const result = promise.catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe("boom");
+    expect(aborted).toEqual([0]);
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+
+  test("traverse keeps siblings running when cancelOnFailure is false", async () => {
+    const { make, aborted } = tracked();
+    const promise = Task.all(
+      [make(100, 0), Task.tryTask(() => Promise.reject(new Error("boom")))],
+      { cancelOnFailure: false }
+    ).run();
+    const result = promise.catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe("boom");
+    expect(aborted).toEqual([]);
+  });
+
+  test("traverse detaches from the parent once siblings left running settle", async () => {
+    const { make } = tracked();
+    let listeners = (): unknown[] => [];
+    const task = Task.from((signal) => {
+      const added = vi.spyOn(signal, "addEventListener");
+      const removed = vi.spyOn(signal, "removeEventListener");
+      listeners = () =>
+        added.mock.calls
+          .map(([, listener]) => listener)
+          .filter(
+            (listener) =>
+              !removed.mock.calls.some(([, other]) => other === listener)
+          );
+      return Task.all(
+        [
+          make(100, 0),
+          make(10, 1)[">>="](() =>
+            Task.tryTask(() => Promise.reject(new Error("boom")))
+          ),
+        ],
+        { cancelOnFailure: false }
+      ).run(signal);
+    });
+    const result = task.run().catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect((await result).message).toBe("boom");
+    expect(listeners()).toEqual([]);
+  });
+
+  test("cancelling the parent cancels every running task", async () => {
+    const controller = new AbortController();
+    const { make, aborted } = tracked();
+    const promise = Task.all([make(100, 1), make(100, 2)]).run(
+      controller.signal
+    );
+    await vi.advanceTimersByTimeAsync(1);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(aborted).toEqual([1, 2]);
+  });
+
+  test("sequence runs tasks one after another by default", async () => {
+    const { make, maxRunning } = tracked();
+    const promise = Task.sequence([
+      make(10, 1),
+      make(10, 2),
+      make(10, 3),
+    ]).run();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual([1, 2, 3]);
+    expect(maxRunning()).toBe(1);
+  });
+
+  test("empty collections resolve immediately", async () => {
+    await expect(Task.all([]).run()).resolves.toEqual([]);
+    await expect(Task.traverse([], Task.pack).run()).resolves.toEqual([]);
+  });
+});
+
+describe("Task parallel applicative", () => {
+  /**
+   * 並行アプリカティブのテスト。
+   * 1. zipPar / mapN / parApply が全ての引数を同時に開始することを確認。
+   * 2. 多数の引数に対してタプル型が推論されることを確認。
+   * 3. parApply が apply と同じ結果を返すことを確認。
+   */
+  const started: string[] = [];
+  const delayed = <T>(name: string, ms: number, value: T) =>
+    Task.from<T>(() => {
+      started.push(name);
+      return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+    });
+
+  beforeEach(() => {
+    started.length = 0;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("zipPar starts every task at once", async () => {
+    const promise = Task.zipPar(
+      delayed("a", 100, 1),
+      delayed("b", 100, "b"),
+      delayed("c", 100, true)
+    ).run();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(["a", "b", "c"]);
+    await vi.advanceTimersByTimeAsync(99);
+
+    const result: [number, string, boolean] = await promise;
+    expect(result).toEqual([1, "b", true]);
+  });
+
+  test("mapN combines many results with typed arguments", async () => {
+    const task = Task.mapN(
+      [
+        Task.pack(1),
+        Task.pack("2"),
+        Task.pack(3),
+        Task.pack([4]),
+        Task.pack({ five: 5 }),
+        Task.pack(6n),
+      ],
+      (a, b, c, d, e, f) => a + Number(b) + c + d[0] + e.five + Number(f)
+    );
+
+    await expect(task.run()).resolves.toBe(21);
+  });
+
+  test("parApply runs both sides concurrently", async () => {
+    const add = (x: number) => x + 1;
+    const promise = delayed("fn", 100, add)
+      .parApply<number, number>(delayed("value", 100, 10))
+      .run();
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(promise).resolves.toBe(11);
+    expect(started).toEqual(["fn", "value"]);
+  });
+
+  test("parApply agrees with apply", async () => {
+    vi.useRealTimers();
+    const f = (x: number) => (y: number) => x * y;
+    const sequential = await Task.pack(f)
+      ["<*>"](Task.pack(3))
+      ["<*>"](Task.pack(4))
+      .run();
+    const parallel = await Task.pack(f)
+      .parApply(Task.pack(3))
+      .parApply(Task.pack(4))
+      .run();
+
+    expect(parallel).toBe(sequential);
+  });
+
+  test("parApply propagates errors", async () => {
+    vi.useRealTimers();
+    const task = Task.pack((x: number) => x).parApply(
+      Task.tryTask(() => Promise.reject(new Error("Apply error")))
+    );
+
+    await expect(task.run()).rejects.toThrow("Apply error");
+  });
+});
+
+describe("Task memoization", () => {
+  /**
+   * メモ化とキャッシュのテスト。
+   * 1. memoize が計算を 1 回だけ実行し、結果を共有することを確認。
+   * 2. 失敗はキャッシュされず、invalidate / refresh で再実行されることを確認。
+   * 3. cached がキーごとにキャッシュし、ttl の経過後に再実行することを確認。
+   */
+  const counter = () => {
+    let calls = 0;
+    const fn = vi.fn(() => Promise.resolve(++calls));
+    return fn;
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("memoize runs the computation once and shares the result", async () => {
+    const fn = counter();
+    const memoized = Task.from(fn).memoize();
+
+    const results = await Promise.all([
+      memoized.run(),
+      memoized.run(),
+      memoized["<$>"]((x) => x * 10).run(),
+    ]);
+
+    expect(results).toEqual([1, 1, 10]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test("memoize does not cache failures", async () => {
+    let calls = 0;
+    const memoized = Task.tryTask(() => {
+      calls += 1;
+      if (calls === 1) throw new Error("first");
+      return calls;
+    }).memoize();
+
+    await expect(memoized.run()).rejects.toThrow("first");
+    await expect(memoized.run()).resolves.toBe(2);
+    await expect(memoized.run()).resolves.toBe(2);
+  });
+
+  test("invalidate and refresh re-execute the computation", async () => {
+    const fn = counter();
+    const memoized = Task.from(fn).memoize();
+
+    await expect(memoized.run()).resolves.toBe(1);
+    memoized.invalidate();
+    await expect(memoized.run()).resolves.toBe(2);
+    await expect(memoized.refresh().run()).resolves.toBe(3);
+    await expect(memoized.run()).resolves.toBe(3);
+  });
+
+  test("cancelling one caller does not cancel the shared run", async () => {
+    const controller = new AbortController();
+    const memoized = Task.from(
+      () => new Promise<number>((resolve) => setTimeout(() => resolve(1), 10))
+    ).memoize();
+
+    const cancelled = memoized.run(controller.signal);
+    const other = memoized.run();
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(CancellationError);
+    await expect(other).resolves.toBe(1);
+  });
+
+  test("cached shares results per key", async () => {
+    const fetchUser = vi.fn((id: number) => Task.pack({ id }));
+    const getUser = Task.cached(fetchUser);
+
+    await getUser(1).run();
+    await getUser(1).run();
+    await getUser(2).run();
+
+    expect(fetchUser).toHaveBeenCalledTimes(2);
+  });
+
+  test("cached uses a custom key function", async () => {
+    const fetchUser = vi.fn((user: { id: number; name: string }) =>
+      Task.pack(user.name)
+    );
+    const getUser = Task.cached(fetchUser, { key: (user) => user.id });
+
+    await getUser({ id: 1, name: "a" }).run();
+    await expect(getUser({ id: 1, name: "b" }).run()).resolves.toBe("a");
+    expect(fetchUser).toHaveBeenCalledTimes(1);
+  });
+
+  test("cached entries expire after ttl", async () => {
+    vi.useFakeTimers();
+    const fn = counter();
+    const get = Task.cached((_: string) => Task.from(fn), { ttl: 1000 });
+
+    await expect(get("a").run()).resolves.toBe(1);
+    vi.advanceTimersByTime(999);
+    await expect(get("a").run()).resolves.toBe(1);
+    vi.advanceTimersByTime(1);
+    await expect(get("a").run()).resolves.toBe(2);
+  });
+
+  test("cached supports invalidate, clear and refresh", async () => {
+    const fn = counter();
+    const get = Task.cached((_: string) => Task.from(fn));
+
+    await expect(get("a").run()).resolves.toBe(1);
+    await expect(get("b").run()).resolves.toBe(2);
+    get.invalidate("a");
+    await expect(get("a").run()).resolves.toBe(3);
+    await expect(get.refresh("b").run()).resolves.toBe(4);
+    await expect(get("b").run()).resolves.toBe(4);
+    get.clear();
+    await expect(get("a").run()).resolves.toBe(5);
+  });
+});
+
+describe("Task bracket", () => {
+  /**
+   * リソース安全性のテスト。
+   * 1. 使用が成功・失敗・キャンセルのいずれでも解放が 1 回だけ実行されることを確認。
+   * 2. 取得がキャンセルで中断されず、取得後に解放されることを確認。
+   */
+  const setup = () => {
+    const events: string[] = [];
+    const acquire = Task.from(() => {
+      events.push("acquire");
+      return Promise.resolve("handle");
+    });
+    const release = (handle: string) =>
+      Task.from(() => {
+        events.push(`release ${handle}`);
+        return Promise.resolve();
+      });
+    return { events, acquire, release };
+  };
+
+  test("releases after a successful use", async () => {
+    const { events, acquire, release } = setup();
+    const task = Task.bracket(
+      acquire,
+      (handle) => Task.pack(`used ${handle}`),
+      release
+    );
+
+    await expect(task.run()).resolves.toBe("used handle");
+    expect(events).toEqual(["acquire", "release handle"]);
+  });
+
+  test("releases after a failed use and keeps the original error", async () => {
+    const { events, acquire, release } = setup();
+    const task = Task.bracket(
+      acquire,
+      () => Task.tryTask(() => Promise.reject(new Error("use failed"))),
+      release
+    );
+
+    await expect(task.run()).rejects.toThrow("use failed");
+    expect(events).toEqual(["acquire", "release handle"]);
+  });
+
+  test("propagates release failures after a successful use", async () => {
+    const { acquire } = setup();
+    const task = Task.bracket(
+      acquire,
+      () => Task.pack(1),
+      () => Task.tryTask(() => Promise.reject(new Error("release failed")))
+    );
+
+    await expect(task.run()).rejects.toThrow("release failed");
+  });
+
+  test("releases exactly once when cancelled during use", async () => {
+    const controller = new AbortController();
+    const { events, acquire, release } = setup();
+    const task = Task.bracket(
+      acquire,
+      () =>
+        Task.from<number>(
+          (signal) =>
+            new Promise((_, reject) =>
+              signal.addEventListener("abort", () => reject(signal.reason))
+            )
+        ),
+      release
+    );
+    const promise = task.run(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual(["acquire", "release handle"]);
+  });
+
+  test("does not interrupt acquisition and releases the acquired resource", async () => {
+    const controller = new AbortController();
+    const events: string[] = [];
+    const use = vi.fn(() => Task.pack(1));
+    const acquire = Task.from(
+      () =>
+        new Promise<string>((resolve) =>
+          setTimeout(() => {
+            events.push("acquire");
+            resolve("handle");
+          }, 10)
+        )
+    );
+    const task = Task.bracket(acquire, use, (handle) =>
+      Task.from(() => {
+        events.push(`release ${handle}`);
+        return Promise.resolve();
+      })
+    );
+    const promise = task.run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(events).toEqual(["acquire", "release handle"]);
+    expect(use).not.toHaveBeenCalled();
+  });
+});
+
+describe("Task fibers and scopes", () => {
+  /**
+   * 構造化並行性のテスト。
+   * 1. fork がバックグラウンドで開始し、join / cancel / status で扱えることを確認。
+   * 2. 親の実行がキャンセルされるとフォークしたファイバーもキャンセルされることを確認。
+   * 3. scope が完了時に子ファイバーを待機またはキャンセルし、失敗時にキャンセルすることを確認。
+   */
+  const sleeper = <T>(ms: number, value: T, events: string[] = []) =>
+    Task.from<T>(
+      (signal) =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(() => {
+            events.push(`done ${value}`);
+            resolve(value);
+          }, ms);
+          signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            events.push(`cancelled ${value}`);
+            reject(signal.reason);
+          });
+        })
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("fork starts the task in the background and join waits for it", async () => {
+    const fiber = await sleeper(100, "value").fork().run();
+    expect(fiber.status()).toBe("running");
+
+    const joined = fiber.join().run();
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(joined).resolves.toBe("value");
+    expect(fiber.status()).toBe("succeeded");
+  });
+
+  test("join propagates the failure of the fiber", async () => {
+    const fiber = await Task.tryTask(() => Promise.reject(new Error("boom")))
+      .fork()
+      .run();
+
+    await expect(fiber.join().run()).rejects.toThrow("boom");
+    expect(fiber.status()).toBe("failed");
+  });
+
+  test("cancel stops the fiber and waits until it settles", async () => {
+    const events: string[] = [];
+    const fiber = await sleeper(100, "value", events).fork().run();
+
+    await fiber.cancel().run();
+
+    expect(fiber.status()).toBe("cancelled");
+    expect(events).toEqual(["cancelled value"]);
+    await expect(fiber.join().run()).rejects.toBeInstanceOf(CancellationError);
+  });
+
+  test("cancelling the parent run cancels forked fibers", async () => {
+    const controller = new AbortController();
+    const events: string[] = [];
+    const task = sleeper(100, "child", events)
+      .fork()
+      [">>="]((fiber) => sleeper(50, "parent", events)["<$>"](() => fiber));
+    const promise = task.run(controller.signal);
+    await vi.advanceTimersByTimeAsync(10);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(events).toEqual(["cancelled child", "cancelled parent"]);
+  });
+
+  test("aborting the signal of the run that forked a fiber cancels it", async () => {
+    const controller = new AbortController();
+    const events: string[] = [];
+    const fiber = await sleeper(100, "child", events)
+      .fork()
+      .run(controller.signal);
+    const chained = await Task.pack(1)
+      [">>="](() => sleeper(100, "chained", events).fork())
+      .named("forking")
+      .run(controller.signal);
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fiber.status()).toBe("cancelled");
+    expect(chained.status()).toBe("cancelled");
+    expect(events).toEqual(["cancelled child", "cancelled chained"]);
+  });
+
+  test("a settled fiber releases the signal of the run that forked it", async () => {
+    const controller = new AbortController();
+    const removed = vi.spyOn(controller.signal, "removeEventListener");
+    const fiber = await sleeper(100, "child").fork().run(controller.signal);
+    expect(removed).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(fiber.status()).toBe("succeeded");
+    expect(removed).toHaveBeenCalledTimes(1);
+  });
+
+  test("scope waits for its children before completing", async () => {
+    const events: string[] = [];
+    const promise = Task.scope((scope) =>
+      scope
+        .fork(sleeper(100, "a", events))
+        [">>="](() => scope.fork(sleeper(50, "b", events)))
+        ["<$>"](() => "body")
+    ).run();
+    let settled = false;
+    promise.then(() => (settled = true));
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(50);
+
+    await expect(promise).resolves.toBe("body");
+    expect(events).toEqual(["done b", "done a"]);
+  });
+
+  test("scope cancels its children when onExit is cancel", async () => {
+    const events: string[] = [];
+    const promise = Task.scope(
+      (scope) => scope.fork(sleeper(100, "worker", events))["<$>"](() => 1),
+      { onExit: "cancel" }
+    ).run();
+
+    await expect(promise).resolves.toBe(1);
+    expect(events).toEqual(["cancelled worker"]);
+  });
+
+  test("scope cancels its children when the body fails", async () => {
+    const events: string[] = [];
+    const promise = Task.scope((scope) =>
+      scope
+        .fork(sleeper(100, "worker", events))
+        [">>="](() => Task.tryTask(() => Promise.reject(new Error("boom"))))
+    ).run();
+
+    await expect(promise).rejects.toThrow("boom");
+    expect(events).toEqual(["cancelled worker"]);
+  });
+
+  test("child failures do not fail the scope", async () => {
+    const promise = Task.scope((scope) =>
+      scope
+        .fork(Task.tryTask(() => Promise.reject(new Error("child"))))
+        ["<$>"]((fiber) => fiber.status())
+    ).run();
+
+    await expect(promise).resolves.toBe("running");
+  });
+});
+
+describe("Task clock", () => {
+  /**
+   * 注入可能なクロックのテスト。
+   * 1. sleep / delay / now がテストクロックの仮想時間で動作することを確認。
+   * 2. timeout / retry がテストクロックで実時間を待たずに動作することを確認。
+   */
+  test("sleep and delay wait for virtual time", async () => {
+    const clock = Clock.test();
+    const events: string[] = [];
+    const task = Task.sleep(100)
+      ["<$>"](() => events.push("slept"))
+      [">>="](() => Task.pack("ran").delay(50))
+      ["<$>"]((value) => events.push(value));
+    const promise = Task.withClock(clock, task).run();
+
+    await clock.advance(100);
+    expect(events).toEqual(["slept"]);
+    await clock.advance(50);
+    await promise;
+
+    expect(events).toEqual(["slept", "ran"]);
+  });
+
+  test("now reads the clock of the run", async () => {
+    const clock = Clock.test(1000);
+    const elapsed = Task.now()[">>="]((start) =>
+      Task.sleep(250)
+        [">>="](() => Task.now())
+        ["<$>"]((end) => end - start)
+    );
+    const promise = Task.withClock(clock, elapsed).run();
+
+    await clock.runAll();
+
+    await expect(promise).resolves.toBe(250);
+  });
+
+  test("timeout uses the clock of the run", async () => {
+    const clock = Clock.test();
+    const promise = Task.withClock(
+      clock,
+      Task.sleep(10_000).timeout(5_000)
+    ).run();
+    const result = promise.catch((e) => e);
+
+    await clock.advance(5_000);
+
+    expect(await result).toBeInstanceOf(TimeoutError);
+    expect(clock.pending()).toBe(0);
+  });
+
+  test("retry waits for virtual time", async () => {
+    const clock = Clock.test();
+    const attempts: number[] = [];
+    const task = Task.now()[">>="]((time) => {
+      attempts.push(time);
+      return attempts.length < 3
+        ? Task.tryTask<number>(() => Promise.reject(new Error("retry")))
+        : Task.pack(time);
+    });
+    const promise = Task.withClock(
+      clock,
+      task.retry({ delay: 1000, backoff: "exponential" })
+    ).run();
+
+    await clock.runAll();
+
+    await expect(promise).resolves.toBe(3000);
+    expect(attempts).toEqual([0, 1000, 3000]);
+  });
+
+  test("cancellation clears pending timers", async () => {
+    const clock = Clock.test();
+    const controller = new AbortController();
+    const promise = Task.withClock(clock, Task.sleep(1000)).run(
+      controller.signal
+    );
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(clock.pending()).toBe(0);
+  });
+});
+
+describe("Task tracing", () => {
+  const recorder = () => {
+    const events: string[] = [];
+    const spans: TraceSpan[] = [];
+    const durations: Record<string, number> = {};
+    const tracer: Tracer = {
+      onStart: (span) => {
+        spans.push(span);
+        events.push(`start ${span.name}`);
+      },
+      onEnd: (span, duration) => {
+        durations[span.name] = duration;
+        events.push(`end ${span.name}`);
+      },
+      onError: (span, _, duration) => {
+        durations[span.name] = duration;
+        events.push(`error ${span.name}`);
+      },
+    };
+    return { events, spans, durations, tracer };
+  };
+
+  test("should report start and end events with durations", async () => {
+    const clock = Clock.test();
+    const { events, durations, tracer } = recorder();
+    const loadUser = Task.sleep(100)
+      .map(() => "alice")
+      .named("loadUser");
+    const promise = Task.withClock(
+      clock,
+      Task.withTracer(tracer, loadUser)
+    ).run();
+
+    await clock.runAll();
+
+    await expect(promise).resolves.toBe("alice");
+    expect(events).toEqual(["start loadUser", "end loadUser"]);
+    expect(durations).toEqual({ loadUser: 100 });
+  });
+
+  test("should relate nested named tasks", async () => {
+    const { spans, tracer } = recorder();
+    const loadUser = Task.pack("alice").named("loadUser");
+    const loadPosts = Task.pack([1, 2]).named("loadPosts");
+    const loadProfile = loadUser
+      .flatMap((user) => loadPosts.map((posts) => ({ user, posts })))
+      .named("loadProfile");
+
+    await Task.withTracer(tracer, loadProfile).run();
+
+    const [profile, user, posts] = spans;
+    expect(spans.map((span) => span.name)).toEqual([
+      "loadProfile",
+      "loadUser",
+      "loadPosts",
+    ]);
+    expect(profile.parentId).toBeUndefined();
+    expect(user.parentId).toBe(profile.id);
+    expect(posts.parentId).toBe(profile.id);
+    expect(posts.path).toEqual(["loadProfile", "loadPosts"]);
+  });
+
+  test("should keep the parent of forked tasks", async () => {
+    const { spans, tracer } = recorder();
+    const child = Task.pack(1).named("child");
+    const parent = child
+      .fork()
+      .flatMap((fiber) => fiber.join())
+      .named("parent");
+
+    await Task.withTracer(tracer, parent).run();
+
+    expect(spans[1].parentId).toBe(spans[0].id);
+  });
+
+  test("should augment errors with the chain of task names", async () => {
+    const { events, tracer } = recorder();
+    const error = new Error("not found");
+    const loadUser = Task.tryTask<string>(() => Promise.reject(error)).named(
+      "loadUser"
+    );
+    const loadProfile = Task.pack(1)
+      .flatMap(() => loadUser)
+      .named("loadProfile");
+
+    await expect(Task.withTracer(tracer, loadProfile).run()).rejects.toBe(
+      error
+    );
+
+    expect((error as Error & { taskTrace: string[] }).taskTrace).toEqual([
+      "loadProfile",
+      "loadUser",
+    ]);
+    expect(error.stack).toContain("at task loadUser");
+    expect(events).toEqual([
+      "start loadProfile",
+      "start loadUser",
+      "error loadUser",
+      "error loadProfile",
+    ]);
+  });
+
+  test("should not augment cancellation errors", async () => {
+    const controller = new AbortController();
+    const promise = Task.sleep(1000).named("wait").run(controller.signal);
+
+    controller.abort();
+
+    const error = await promise.catch((error) => error);
+    expect(error).toBeInstanceOf(CancellationError);
+    expect("taskTrace" in error).toBe(false);
+  });
+
+  test("should work without a tracer", async () => {
+    await expect(Task.pack(1).named("plain").run()).resolves.toBe(1);
+  });
+});
+
+describe("Task interop", () => {
+  test("fromCallback should resolve with the callback value", async () => {
+    let calls = 0;
+    const task = Task.fromCallback<number>((callback) => {
+      calls++;
+      setTimeout(() => callback(null, 42), 0);
+    });
+
+    expect(calls).toBe(0);
+    await expect(task.run()).resolves.toBe(42);
+    await expect(task.run()).resolves.toBe(42);
+    expect(calls).toBe(2);
+  });
+
+  test("fromCallback should reject with the callback error", async () => {
+    const error = new Error("failed");
+    const task = Task.fromCallback<number>((callback) => callback(error));
+
+    await expect(task.run()).rejects.toBe(error);
+  });
+
+  test("fromCallback should pass the signal of the run", async () => {
+    const controller = new AbortController();
+    let aborted = false;
+    const task = Task.fromCallback<void>((_, signal) => {
+      signal.addEventListener("abort", () => {
+        aborted = true;
+      });
+    });
+    const promise = task.run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(aborted).toBe(true);
+  });
+
+  test("fromEvent should resolve with the next event of an EventEmitter", async () => {
+    const emitter = new EventEmitter();
+    const task = Task.fromEvent<string>(emitter, "data");
+
+    expect(emitter.listenerCount("data")).toBe(0);
+    const promise = task.run();
+    emitter.emit("data", "hello");
+
+    await expect(promise).resolves.toBe("hello");
+    expect(emitter.listenerCount("data")).toBe(0);
+  });
+
+  test("fromEvent should reject on the error event", async () => {
+    const emitter = new EventEmitter();
+    const error = new Error("broken");
+    const promise = Task.fromEvent(emitter, "data", {
+      errorEvent: "error",
+    }).run();
+
+    emitter.emit("error", error);
+
+    await expect(promise).rejects.toBe(error);
+    expect(emitter.listenerCount("data")).toBe(0);
+    expect(emitter.listenerCount("error")).toBe(0);
+  });
+
+  test("fromEvent should support an EventTarget", async () => {
+    const target = new EventTarget();
+    const promise = Task.fromEvent<Event>(target, "ready").run();
+
+    target.dispatchEvent(new Event("ready"));
+
+    await expect(promise).resolves.toBeInstanceOf(Event);
+  });
+
+  test("fromEvent should remove its listeners when cancelled", async () => {
+    const emitter = new EventEmitter();
+    const controller = new AbortController();
+    const promise = Task.fromEvent(emitter, "data", {
+      errorEvent: "error",
+    }).run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(emitter.listenerCount("data")).toBe(0);
+    expect(emitter.listenerCount("error")).toBe(0);
+  });
+
+  test("promisify should convert a callback function lazily", async () => {
+    let calls = 0;
+    const add = (a: number, b: number, callback: NodeCallback<number>) => {
+      calls++;
+      callback(null, a + b);
+    };
+    const task = Task.promisify(add)(1, 2);
+
+    expect(calls).toBe(0);
+    await expect(task.run()).resolves.toBe(3);
+  });
+
+  test("promisify should keep the overloads of a function", async () => {
+    function read(path: string, callback: NodeCallback<string>): void;
+    function read(
+      path: string,
+      encoding: "binary",
+      callback: NodeCallback<Uint8Array>
+    ): void;
+    function read(path: string, ...rest: unknown[]): void {
+      const callback = rest[rest.length - 1] as NodeCallback<unknown>;
+      callback(null, rest.length === 1 ? path : new Uint8Array([1]));
+    }
+    const readTask = Task.promisify(read);
+
+    const text: Task<string> = readTask("a.txt");
+    const bytes: Task<Uint8Array> = readTask("a.bin", "binary");
+
+    await expect(text.run()).resolves.toBe("a.txt");
+    await expect(bytes.run()).resolves.toEqual(new Uint8Array([1]));
+  });
+
+  test("toCallback should report the result through a callback", async () => {
+    const double = Task.toCallback((x: number) => Task.pack(x * 2));
+    const failing = Task.toCallback(() =>
+      Task.tryTask<number>(() => Promise.reject(new Error("boom")))
+    );
+
+    const result = await new Promise((resolve) =>
+      double(21, (error, value) => resolve([error, value]))
+    );
+    const failure = await new Promise((resolve) =>
+      failing((error) => resolve(error))
+    );
+
+    expect(result).toEqual([null, 42]);
+    expect(failure).toEqual(new Error("boom"));
+  });
+
+  test("toCallback should return a function that cancels the task", async () => {
+    const wait = Task.toCallback(() => Task.sleep(1000));
+    const error = await new Promise((resolve) => {
+      const cancel = wait((error) => resolve(error));
+      cancel();
+    });
+
+    expect(error).toBeInstanceOf(CancellationError);
+  });
+});
+
+describe("Task settled outcomes", () => {
+  const fail = (message: string) =>
+    Task.tryTask<number>(() => Promise.reject(new Error(message)));
+
+  test("allSettled should collect every outcome as Either values", async () => {
+    const outcomes = await Task.allSettled([
+      Task.pack(1),
+      fail("boom"),
+      Task.pack("three"),
+    ]).run();
+
+    expect(outcomes.map((outcome) => outcome.isRight)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(outcomes[0].getValue()).toBe(1);
+    expect(outcomes[1].getValue()).toEqual(new Error("boom"));
+    expect(outcomes[2].getValue()).toBe("three");
+  });
+
+  test("allSettled should respect the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const tracked = Task.from(() => {
+      active++;
+      peak = Math.max(peak, active);
+      return Promise.resolve();
+    }).flatMap(() =>
+      Task.from(() => {
+        active--;
+        return Promise.reject(new Error("failed"));
+      })
+    );
+
+    await Task.allSettled([tracked, tracked, tracked], {
+      concurrency: 1,
+    }).run();
+
+    expect(peak).toBe(1);
+  });
+
+  test("allSettled should still propagate cancellation of the run", async () => {
+    const controller = new AbortController();
+    const promise = Task.allSettled([Task.sleep(1000)]).run(controller.signal);
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+  });
+
+  test("partition should split successes and failures in order", async () => {
+    const result = await Task.partition([
+      Task.pack(1),
+      fail("a"),
+      Task.pack(3),
+      fail("b"),
+    ]).run();
+
+    expect(result.successes).toEqual([1, 3]);
+    expect(result.failures).toEqual([new Error("a"), new Error("b")]);
+  });
+
+  test("all with collectErrors should report every error", async () => {
+    const finished: number[] = [];
+    const slow = Task.sleep(10).map(() => {
+      finished.push(2);
+      return 2;
+    });
+
+    const error = await Task.all(
+      [Task.sleep(5).flatMap(() => fail("a")), slow, fail("b")],
+      {
+        collectErrors: true,
+      }
+    )
+      .run()
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(TaskAggregateError);
+    expect(error.errors).toEqual([new Error("a"), new Error("b")]);
+    expect(finished).toEqual([2]);
+  });
+
+  test("all with collectErrors should resolve when every task succeeds", async () => {
+    const result = await Task.all([Task.pack(1), Task.pack("two")], {
+      collectErrors: true,
+    }).run();
+
+    expect(result).toEqual([1, "two"]);
+  });
+});
+
+describe("Task rate control", () => {
+  const counted =
+    <T>(calls: T[]) =>
+    (value: T) =>
+      Task.from(() => {
+        calls.push(value);
+        return Promise.resolve(value);
+      });
+
+  test("takeLatest should cancel the stale run", async () => {
+    const clock = Clock.test();
+    const search = Task.takeLatest((query: string) =>
+      Task.sleep(100).map(() => `results for ${query}`)
+    );
+    const first = Task.withClock(clock, search("a"))
+      .run()
+      .catch((error) => error);
+    const second = Task.withClock(clock, search("ab")).run();
+
+    await clock.runAll();
+
+    expect(await first).toBeInstanceOf(CancellationError);
+    await expect(second).resolves.toBe("results for ab");
+  });
+
+  test("debounce should only run the last call after the quiet time", async () => {
+    const clock = Clock.test();
+    const calls: string[] = [];
+    const search = Task.debounce(counted(calls), 300);
+    const runs = ["a", "ab", "abc"].map((query) =>
+      Task.withClock(clock, search(query))
+        .run()
+        .catch((error) => error)
+    );
+
+    await clock.advance(299);
+    expect(calls).toEqual([]);
+    await clock.advance(1);
+
+    expect(await runs[2]).toBe("abc");
+    expect(await runs[0]).toBeInstanceOf(CancellationError);
+    expect(await runs[1]).toBeInstanceOf(CancellationError);
+    expect(calls).toEqual(["abc"]);
+  });
+
+  test("throttle should share the leading run within the interval", async () => {
+    const clock = Clock.test();
+    const calls: number[] = [];
+    const load = Task.throttle(counted(calls), 1000);
+
+    const first = await Task.withClock(clock, load(1)).run();
+    const second = await Task.withClock(clock, load(1)).run();
+    await clock.advance(1000);
+    const third = await Task.withClock(clock, load(1)).run();
+
+    expect([first, second, third]).toEqual([1, 1, 1]);
+    expect(calls).toEqual([1, 1]);
+  });
+
+  test("throttle should only share results between calls with the same key", async () => {
+    const clock = Clock.test();
+    const calls: string[] = [];
+    const load = Task.throttle(counted(calls), 1000, {
+      key: (query) => query.toLowerCase(),
+    });
+
+    const results = [
+      await Task.withClock(clock, load("a")).run(),
+      await Task.withClock(clock, load("b")).run(),
+      await Task.withClock(clock, load("A")).run(),
+    ];
+
+    expect(results).toEqual(["a", "b", "a"]);
+    expect(calls).toEqual(["a", "b"]);
+  });
+
+  test("throttle should not share a failed run", async () => {
+    let attempts = 0;
+    const load = Task.throttle(
+      () =>
+        Task.tryTask(() =>
+          ++attempts === 1
+            ? Promise.reject(new Error("failed"))
+            : Promise.resolve(attempts)
+        ),
+      1000
+    );
+
+    await expect(load().run()).rejects.toThrow("failed");
+    await expect(load().run()).resolves.toBe(2);
+  });
+
+  test("dedupe should collapse concurrent identical runs", async () => {
+    const clock = Clock.test();
+    const calls: string[] = [];
+    const fetchUser = Task.dedupe((id: string) =>
+      counted(calls)(id).flatMap((value) => Task.sleep(100).map(() => value))
+    );
+    const runs = ["a", "a", "b"].map((id) =>
+      Task.withClock(clock, fetchUser(id)).run()
+    );
+
+    await clock.runAll();
+
+    await expect(Promise.all(runs)).resolves.toEqual(["a", "a", "b"]);
+    expect(calls).toEqual(["a", "b"]);
+
+    const again = Task.withClock(clock, fetchUser("a")).run();
+    await clock.runAll();
+    await again;
+    expect(calls).toEqual(["a", "b", "a"]);
+  });
+
+  test("dedupe should keep the shared run when one caller cancels", async () => {
+    const clock = Clock.test();
+    const fetchUser = Task.dedupe(
+      (id: string) => Task.sleep(100).map(() => id),
+      { key: (id) => id.toLowerCase() }
+    );
+    const controller = new AbortController();
+    const cancelled = Task.withClock(clock, fetchUser("A"))
+      .run(controller.signal)
+      .catch((error) => error);
+    const kept = Task.withClock(clock, fetchUser("a")).run();
+
+    controller.abort();
+    await clock.runAll();
+
+    expect(await cancelled).toBeInstanceOf(CancellationError);
+    await expect(kept).resolves.toBe("A");
+  });
+});
+
+describe("Task repeat and schedules", () => {
+  test("repeat should collect the outputs until the schedule stops", async () => {
+    const clock = Clock.test();
+    let polls = 0;
+    const poll = Task.from(() =>
+      Promise.resolve(++polls < 3 ? "pending" : "done")
+    );
+    const promise = Task.withClock(
+      clock,
+      poll.repeat(
+        Schedule.spaced(1000).intersect(
+          Schedule.until((status: string) => status === "done")
+        )
+      )
+    ).run();
+
+    await clock.runAll();
+
+    await expect(promise).resolves.toEqual(["pending", "pending", "done"]);
+    expect(clock.now()).toBe(2000);
+  });
+
+  test("repeat with a fixed schedule should keep the interval", async () => {
+    const clock = Clock.test();
+    const starts: number[] = [];
+    const job = Task.now()
+      .map((time) => {
+        starts.push(time);
+      })
+      .flatMap(() => Task.sleep(300));
+    const promise = Task.withClock(
+      clock,
+      job.repeat(Schedule.fixed(1000).upTo(2))
+    ).run();
+
+    await clock.runAll();
+    await promise;
+
+    expect(starts).toEqual([0, 1000, 2000]);
+  });
+
+  test("repeat should fail when a run fails", async () => {
+    let runs = 0;
+    const job = Task.tryTask(() =>
+      ++runs === 2 ? Promise.reject(new Error("broken")) : Promise.resolve(runs)
+    );
+
+    await expect(job.repeat(Schedule.recurs(5)).run()).rejects.toThrow(
+      "broken"
+    );
+    expect(runs).toBe(2);
+  });
+
+  test("repeat should stop when cancelled", async () => {
+    const clock = Clock.test();
+    const controller = new AbortController();
+    const promise = Task.withClock(
+      clock,
+      Task.pack(1).repeat(Schedule.spaced(1000))
+    ).run(controller.signal);
+
+    await clock.advance(2500);
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    expect(clock.pending()).toBe(0);
+  });
+
+  test("retry should accept a schedule receiving the errors", async () => {
+    const clock = Clock.test();
+    const attempts: number[] = [];
+    const job = Task.now().flatMap((time) => {
+      attempts.push(time);
+      return attempts.length < 3
+        ? Task.tryTask<string>(() => Promise.reject(new Error("retry")))
+        : Task.pack("ok");
+    });
+    const promise = Task.withClock(
+      clock,
+      job.retry(Schedule.exponential(100).upTo(5))
+    ).run();
+
+    await clock.runAll();
+
+    await expect(promise).resolves.toBe("ok");
+    expect(attempts).toEqual([0, 100, 300]);
+  });
+
+  test("retry should stop when the schedule stops", async () => {
+    let attempts = 0;
+    const job = Task.tryTask<string>(() => {
+      attempts++;
+      return Promise.reject(new TypeError("fatal"));
+    });
+    const schedule = Schedule.recurs(3).intersect(
+      Schedule.until((error: unknown) => error instanceof TypeError)
+    );
+
+    await expect(job.retry(schedule).run()).rejects.toBeInstanceOf(TypeError);
+    expect(attempts).toBe(1);
+  });
+});
+
+describe("Task progress", () => {
+  test("fromProgress should report clamped progress and complete on success", async () => {
+    const values: number[] = [];
+    const upload = Task.trackProgress(
+      Task.fromProgress((report) => {
+        report(0.25);
+        report(0.5);
+        report(2);
+        return Promise.resolve("uploaded");
+      })
+    );
+    upload.progress.subscribe((value) => values.push(value));
+
+    expect(await upload.run()).toBe("uploaded");
+    expect(values).toEqual([0.25, 0.5, 1]);
+    expect(upload.progress.getValue()).toBe(1);
+  });
+
+  test("fromProgress should be a plain task without a tracker", async () => {
+    const task = Task.fromProgress((report) => {
+      report(0.5);
+      return Promise.resolve(1);
+    });
+    expect(await task.run()).toBe(1);
+  });
+
+  test("trackProgress should restart from zero on every run", async () => {
+    let fail = true;
+    const job = Task.trackProgress(
+      Task.fromProgress((report) => {
+        report(0.4);
+        return fail ? Promise.reject(new Error("boom")) : Promise.resolve(1);
+      })
+    );
+
+    await expect(job.run()).rejects.toThrow("boom");
+    expect(job.progress.getValue()).toBe(0.4);
+
+    fail = false;
+    const values: number[] = [];
+    job.progress.subscribe((value) => values.push(value));
+    await job.run();
+    expect(values).toEqual([0, 0.4, 1]);
+  });
+
+  test("all should average the progress of its children", async () => {
+    const values: number[] = [];
+    const reports: Array<(progress: number) => void> = [];
+    const finishes: Array<() => void> = [];
+    const child = Task.fromProgress(
+      (report) =>
+        new Promise<void>((resolve) => {
+          reports.push(report);
+          finishes.push(resolve);
+        })
+    );
+    const batch = Task.trackProgress(Task.all([child, child]));
+    batch.progress.subscribe((value) => values.push(value));
+
+    const promise = batch.run();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    reports[0](0.5);
+    expect(batch.progress.getValue()).toBe(0.25);
+    finishes[0]();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(batch.progress.getValue()).toBe(0.5);
+    finishes[1]();
+    await promise;
+
+    expect(values).toEqual([0.25, 0.5, 1]);
+  });
+
+  test("children without reports should count as done once they succeed", async () => {
+    const values: number[] = [];
+    const job = Task.trackProgress(
+      Task.traverse([1, 2, 3, 4], (n) => Task.pack(n * 2), { concurrency: 1 })
+    );
+    job.progress.subscribe((value) => values.push(value));
+
+    expect(await job.run()).toEqual([2, 4, 6, 8]);
+    expect(values).toEqual([0.25, 0.5, 0.75, 1]);
+  });
+
+  test("nested trackers should each see their own progress", async () => {
+    const inner = Task.trackProgress(
+      Task.sequence([
+        Task.fromProgress((report) => {
+          report(0.5);
+          return Promise.resolve(1);
+        }),
+        Task.pack(2),
+      ])
+    );
+    const outer = Task.trackProgress(Task.all([inner, Task.pack([3])]));
+    const outerValues: number[] = [];
+    outer.progress.subscribe((value) => outerValues.push(value));
+
+    await outer.run();
+
+    expect(inner.progress.getValue()).toBe(1);
+    expect(outerValues).toContain(0.125);
+    expect(outerValues[outerValues.length - 1]).toBe(1);
+  });
+});
+
+describe("Task promise interop", () => {
+  test("fromPromiseFactory should start the work on every run", async () => {
+    let calls = 0;
+    const task = Task.fromPromiseFactory(() => Promise.resolve(++calls));
+
+    expect(calls).toBe(0);
+    expect(await task.run()).toBe(1);
+    expect(await task.run()).toBe(2);
+  });
+
+  test("map and flatMap should stay lazy", async () => {
+    let calls = 0;
+    const task = Task.fromPromiseFactory(() => Promise.resolve(++calls))
+      .map((n) => n * 10)
+      .flatMap((n) =>
+        Task.fromPromiseFactory(() => Promise.resolve(n + ++calls))
+      );
+
+    expect(calls).toBe(0);
+    expect(await task.run()).toBe(12);
+    expect(calls).toBe(2);
+  });
+
+  test("fromPromiseFactory should pass the signal of the run", async () => {
+    const controller = new AbortController();
+    const task = Task.fromPromiseFactory(
+      (signal) =>
+        new Promise((_, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        )
+    );
+
+    const promise = task.toPromise(controller.signal);
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+  });
+
+  test("fromPromise should share a promise that is already running", async () => {
+    let calls = 0;
+    const promise = Promise.resolve().then(() => ++calls);
+    const task = Task.fromPromise(promise).map((n) => n * 2);
+
+    expect(await task.run()).toBe(2);
+    expect(await task.run()).toBe(2);
+    expect(calls).toBe(1);
+  });
+
+  test("cancelling fromPromise should only stop the wait", async () => {
+    let resolve: (value: string) => void = () => undefined;
+    const promise = new Promise<string>((r) => (resolve = r));
+    const controller = new AbortController();
+
+    const cancelled = Task.fromPromise(promise).run(controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(CancellationError);
+
+    resolve("done");
+    expect(await Task.fromPromise(promise).run()).toBe("done");
+  });
+
+  test("toPromise should run the task like run", async () => {
+    expect(await Task.pack(1).toPromise()).toBe(1);
+    await expect(
+      Task.tryTask(() => Promise.reject(new Error("boom"))).toPromise()
+    ).rejects.toThrow("boom");
+  });
+
+  test("thenable tasks should run once per await", async () => {
+    let calls = 0;
+    const task = Task.thenable(
+      Task.fromPromiseFactory(() => Promise.resolve(++calls))
+    );
+
+    expect(calls).toBe(0);
+    expect(await task).toBe(1);
+    expect(await task).toBe(2);
+    expect(await task.run()).toBe(3);
+  });
+
+  test("thenable tasks should reject when awaited tasks fail", async () => {
+    const task = Task.thenable(
+      Task.tryTask<number>(() => Promise.reject(new Error("boom")))
+    );
+    await expect(
+      (async () => {
+        await task;
+      })()
+    ).rejects.toThrow("boom");
+  });
+
+  test("transforming a thenable task should return a lazy plain task", async () => {
+    let calls = 0;
+    const mapped = Task.thenable(
+      Task.fromPromiseFactory(() => Promise.resolve(++calls))
+    ).map((n) => n + 1);
+
+    expect("then" in mapped).toBe(false);
+    expect(await Promise.resolve(mapped)).toBe(mapped);
+    expect(calls).toBe(0);
+    expect(await mapped.run()).toBe(2);
+  });
+
+  test("thenable tasks are run when a Promise is resolved with them", async () => {
+    let calls = 0;
+    const inner = Task.thenable(
+      Task.fromPromiseFactory(() => Promise.resolve(++calls))
+    );
+
+    const mapped: unknown = await Task.pack(1)
+      .map(() => inner)
+      .run();
+    const packed: unknown = await Task.pack(inner).run();
+
+    expect(mapped).toBe(1);
+    expect(packed).toBe(2);
+    expect(calls).toBe(2);
+  });
+});
+
+describe("Task stack safety", () => {
+  const N = 1_000_000;
+
+  test("tailRecM should run a million steps", async () => {
+    const task = Task.tailRecM(0, (n) =>
+      Task.pack(
+        n < N
+          ? Either.left<number, number>(n + 1)
+          : Either.right<number, number>(n)
+      )
+    );
+    expect(await task.run()).toBe(N);
+  }, 30000);
+
+  test("loop should stop at the first Right and propagate failures", async () => {
+    const steps: number[] = [];
+    const task = Task.loop(1, (n) => {
+      steps.push(n);
+      return Task.pack(
+        n < 3
+          ? Either.left<number, string>(n + 1)
+          : Either.right<number, string>(`done ${n}`)
+      );
+    });
+
+    expect(steps).toEqual([]);
+    expect(await task.run()).toBe("done 3");
+    expect(steps).toEqual([1, 2, 3]);
+
+    const failing = Task.loop(0, (n) =>
+      n < 2
+        ? Task.pack(Either.left<number, number>(n + 1))
+        : Task.tryTask<Either<number, number>>(() => {
+            throw new Error("boom");
+          })
+    );
+    await expect(failing.run()).rejects.toThrow("boom");
+  });
+
+  test("recursive flatMap should run a million levels", async () => {
+    const count = (n: number): Task<number> =>
+      n === 0 ? Task.pack(0) : Task.pack(n - 1).flatMap(count);
+    expect(await count(N).run()).toBe(0);
+  }, 30000);
+
+  test("long chains of map and flatMap should not overflow", async () => {
+    let task = Task.pack(0);
+    for (let i = 0; i < 100_000; i++) {
+      task =
+        i % 2 === 0
+          ? task.map((n) => n + 1)
+          : task.flatMap((n) => Task.pack(n + 1));
+    }
+    expect(await task.run()).toBe(100_000);
+  }, 30000);
+
+  test("Do should loop a million times", async () => {
+    const task = Task.do(function* () {
+      let total = 0;
+      for (let i = 0; i < N; i++) {
+        const one: number = yield Task.pack(1);
+        total += one;
+      }
+      return total;
+    });
+    expect(await task.run()).toBe(N);
+  }, 30000);
+
+  test("Do should restart the generator on every run", async () => {
+    let starts = 0;
+    const task = Task.do(function* () {
+      starts++;
+      const value: number = yield Task.pack(1);
+      return value + 1;
+    });
+
+    expect(starts).toBe(0);
+    expect(await task.run()).toBe(2);
+    expect(await task.run()).toBe(2);
+    expect(starts).toBe(2);
+  });
+
+  test("loop should stop at the next step once cancelled", async () => {
+    const controller = new AbortController();
+    let steps = 0;
+    const task = Task.loop(0, (n) =>
+      Task.from(
+        () =>
+          new Promise<Either<number, never>>((resolve) => {
+            steps++;
+            setTimeout(() => resolve(Either.left<number, never>(n + 1)), 1);
+          })
+      )
+    );
+
+    const promise = task.run(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    const stopped = steps;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(steps).toBe(stopped);
+  });
+});
@@ -0,0 +1,229 @@
+import { Either } from "../src/Either";
+import { CancellationError, Task } from "../src/Task";
+import { TaskEither } from "../src/TaskEither";
+
+describe("TaskEither laws and behavior", () => {
+  /**
+   * ファンクター則のテスト。
+   * 1. 恒等則（Identity）
+   * 2. 合成則（Composition）
+   */
+  describe("Functor laws", () => {
+    test("Identity", async () => {
+      const te = TaskEither.pack<string, number>(10);
+
+      // Identity: `<$>` id = id
+      const result = await te["<$>"]((x) => x).run();
+      expect(result.getValue()).toBe((await te.run()).getValue());
+    });
+
+    test("Composition", async () => {
+      const f = (x: number) => x + 1;
+      const g = (x: number) => x * 2;
+      const te = TaskEither.pack<string, number>(10);
+
+      // Composition: `<$>` (f . g) = (`<$>` f) . (`<$>` g)
+      const result = await te["<$>"]((x) => f(g(x))).run();
+      const chained = await te["<$>"](g)["<$>"](f).run();
+      expect(result.getValue()).toBe(chained.getValue());
+    });
+  });
+
+  /**
+   * モナド則のテスト。
+   * 1. 左単位元則（Left identity）
+   * 2. 右単位元則（Right identity）
+   * 3. 結合則（Associativity）
+   */
+  describe("Monad laws", () => {
+    test("Left identity", async () => {
+      const f = (x: number) => TaskEither.pack<string, number>(x + 1);
+
+      // Left identity: return a >>= f = f a
+      const result = await TaskEither.pack<string, number>(10)[">>="](f).run();
+      expect(result.getValue()).toBe((await f(10).run()).getValue());
+    });
+
+    test("Right identity", async () => {
+      const te = TaskEither.pack<string, number>(10);
+
+      // Right identity: m >>= return = m
+      const result = await te[">>="](TaskEither.pack).run();
+      expect(result.getValue()).toBe((await te.run()).getValue());
+    });
+
+    test("Associativity", async () => {
+      const f = (x: number) => TaskEither.pack<string, number>(x + 1);
+      const g = (x: number) => TaskEither.pack<string, number>(x * 2);
+      const te = TaskEither.pack<string, number>(10);
+
+      // Associativity: (m >>= f) >>= g = m >>= (\x -> f x >>= g)
+      const left = await te[">>="](f)[">>="](g).run();
+      const right = await te[">>="]((x) => f(x)[">>="](g)).run();
+      expect(left.getValue()).toBe(right.getValue());
+    });
+  });
+
+  /**
+   * エラーチャネルのテスト。
+   * 1. Left が map / flatMap をスキップし、mapLeft / orElse / fold で扱えることを確認。
+   * 2. 例外や拒否が tryCatch / fromTask で Left に変換されることを確認。
+   * 3. do 記法でエラー型が合成されることを確認。
+   */
+  describe("Error channel", () => {
+    test("Left skips map and flatMap", async () => {
+      const fn = vi.fn((x: number) => x + 1);
+      const result = await TaskEither.left<string, number>("error")
+        .map(fn)
+        .flatMap((x) => TaskEither.pack<string, number>(x))
+        .run();
+
+      expect(result.isLeft).toBe(true);
+      expect(result.getValue()).toBe("error");
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    test("mapLeft transforms the error", async () => {
+      const result = await TaskEither.left<string, number>("error")
+        .mapLeft((e) => e.length)
+        .run();
+
+      expect(result.getValue()).toBe(5);
+    });
+
+    test("orElse recovers from the error", async () => {
+      const result = await TaskEither.left<string, number>("error")
+        .orElse((e) => TaskEither.pack<never, number>(e.length))
+        .run();
+
+      expect(result.isRight).toBe(true);
+      expect(result.getValue()).toBe(5);
+    });
+
+    test("fold handles both channels", async () => {
+      const describe = (te: TaskEither<string, number>) =>
+        te.fold(
+          (e) => `error: ${e}`,
+          (x) => `value: ${x}`
+        );
+
+      await expect(describe(TaskEither.pack(1)).run()).resolves.toBe(
+        "value: 1"
+      );
+      await expect(describe(TaskEither.left("x")).run()).resolves.toBe(
+        "error: x"
+      );
+    });
+
+    test("apply combines values and errors", async () => {
+      const add = (x: number) => (y: number) => x + y;
+      const ok = await TaskEither.pack<string, typeof add>(add)
+        ["<*>"](TaskEither.pack<string, number>(1))
+        ["<*>"](TaskEither.pack<string, number>(2))
+        .run();
+      const ng = await TaskEither.pack<string, typeof add>(add)
+        ["<*>"](TaskEither.left<string, number>("bad"))
+        ["<*>"](TaskEither.pack<string, number>(2))
+        .run();
+
+      expect(ok.getValue()).toBe(3);
+      expect(ng.getValue()).toBe("bad");
+    });
+
+    test("tryCatch converts rejections into Left", async () => {
+      const te = TaskEither.tryCatch(
+        () => Promise.reject(new Error("boom")),
+        (error) => (error as Error).message
+      );
+
+      const result = await te.run();
+      expect(result.isLeft).toBe(true);
+      expect(result.getValue()).toBe("boom");
+    });
+
+    test("fromTask converts a Task", async () => {
+      const ok = await TaskEither.fromTask(Task.pack(1), String).run();
+      const ng = await TaskEither.fromTask(
+        Task.tryTask(() => {
+          throw "failure";
+        }),
+        String
+      ).run();
+
+      expect(ok.getValue()).toBe(1);
+      expect(ng.getValue()).toBe("failure");
+    });
+
+    test("fromEither and toTask round-trip an Either", async () => {
+      const either = Either.left<string, number>("error");
+      const result = await TaskEither.fromEither(either).toTask().run();
+
+      expect(result.isLeft).toBe(true);
+      expect(result.getValue()).toBe("error");
+    });
+
+    test("cancellation is propagated instead of becoming Left", async () => {
+      const controller = new AbortController();
+      const te = TaskEither.tryCatch(
+        (signal) =>
+          new Promise<number>((_, reject) =>
+            signal.addEventListener("abort", () => reject(new Error("aborted")))
+          ),
+        String
+      );
+      const promise = te.run(controller.signal);
+
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(CancellationError);
+    });
+
+    test("do notation unions the error types", async () => {
+      type NotFound = { type: "NotFound" };
+      type Invalid = { type: "Invalid"; reason: string };
+      const find = (id: number) =>
+        id > 0
+          ? TaskEither.pack<NotFound, { id: number; age: number }>({
+              id,
+              age: 20,
+            })
+          : TaskEither.left<NotFound, { id: number; age: number }>({
+              type: "NotFound",
+            });
+      const validate = (age: number) =>
+        age >= 18
+          ? TaskEither.pack<Invalid, number>(age)
+          : TaskEither.left<Invalid, number>({
+              type: "Invalid",
+              reason: "too young",
+            });
+      const program = (id: number) =>
+        TaskEither.do(function* () {
+          const user: { id: number; age: number } = yield find(id);
+          const age: number = yield validate(user.age);
+          return `${user.id}:${age}`;
+        });
+
+      const ok = program(1);
+      const ng: TaskEither<NotFound | Invalid, string> = program(0);
+
+      expect((await ok.run()).getValue()).toBe("1:20");
+      expect((await ng.run()).getValue()).toEqual({ type: "NotFound" });
+    });
+
+    test("do should start the generator again on every run", async () => {
+      let calls = 0;
+      const program = TaskEither.do(function* () {
+        calls++;
+        const a: number = yield TaskEither.pack<string, number>(1);
+        const b: number = yield TaskEither.pack<string, number>(2);
+        return a + b;
+      });
+
+      expect(calls).toBe(0);
+      expect((await program.run()).getValue()).toBe(3);
+      expect((await program.run()).getValue()).toBe(3);
+      expect(calls).toBe(2);
+    });
+  });
+});
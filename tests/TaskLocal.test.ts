@@ -0,0 +1,170 @@
+import { Task } from "../src/Task";
+import { TaskLocal } from "../src/TaskLocal";
+
+describe("TaskLocal behavior", () => {
+  const log =
+    (requestId: TaskLocal<string>, lines: string[]) => (message: string) =>
+      requestId.get().map((id) => {
+        lines.push(`[${id}] ${message}`);
+      });
+
+  test("get should resolve with the initial value when none is set", async () => {
+    const requestId = TaskLocal.create("none");
+
+    await expect(requestId.get().run()).resolves.toBe("none");
+  });
+
+  test("locally should provide the value through map and flatMap", async () => {
+    const requestId = TaskLocal.create("none");
+    const lines: string[] = [];
+    const write = log(requestId, lines);
+    const handler = write("start")
+      .flatMap(() => Task.sleep(1))
+      .flatMap(() => write("end"));
+
+    await requestId.locally("req-1", handler).run();
+    await handler.run();
+
+    expect(lines).toEqual([
+      "[req-1] start",
+      "[req-1] end",
+      "[none] start",
+      "[none] end",
+    ]);
+  });
+
+  test("locally should restore the outer value afterwards", async () => {
+    const user = TaskLocal.create("anonymous");
+    const result = await user
+      .locally(
+        "alice",
+        user
+          .locally("admin", user.get())
+          .flatMap((inner) => user.get().map((outer) => [inner, outer]))
+      )
+      .run();
+
+    expect(result).toEqual(["admin", "alice"]);
+  });
+
+  test("set should change the value for the rest of the run", async () => {
+    const requestId = TaskLocal.create("none");
+    const task = requestId
+      .set("req-2")
+      .flatMap(() => requestId.get())
+      .map((id) => id.toUpperCase());
+
+    await expect(task.run()).resolves.toBe("REQ-2");
+    await expect(requestId.get().run()).resolves.toBe("none");
+  });
+
+  test("should work with Task.do", async () => {
+    const requestId = TaskLocal.create("none");
+    const program = Task.do(function* () {
+      const id: string = yield requestId.get();
+      const upper: string = yield Task.pack(id.toUpperCase());
+      return upper;
+    });
+
+    await expect(requestId.locally("req-3", program).run()).resolves.toBe(
+      "REQ-3"
+    );
+  });
+
+  test("forked work should inherit the value", async () => {
+    const requestId = TaskLocal.create("none");
+    const task = requestId.locally(
+      "req-4",
+      requestId
+        .get()
+        .delay(1)
+        .fork()
+        .flatMap((fiber) => fiber.join())
+    );
+
+    await expect(task.run()).resolves.toBe("req-4");
+  });
+
+  test("a change in forked work should not leak into the parent", async () => {
+    const requestId = TaskLocal.create("none");
+    const task = requestId
+      .set("parent")
+      .flatMap(() =>
+        requestId
+          .set("child")
+          .fork()
+          .flatMap((fiber) => fiber.join())
+      )
+      .flatMap(() => requestId.get());
+
+    await expect(task.run()).resolves.toBe("parent");
+  });
+
+  test("concurrent runs should be isolated", async () => {
+    const requestId = TaskLocal.create("none");
+    const lines: string[] = [];
+    const write = log(requestId, lines);
+    const handle = (id: string, ms: number) =>
+      requestId.locally(
+        id,
+        write("start")
+          .flatMap(() => Task.sleep(ms))
+          .flatMap(() => write("end"))
+      );
+
+    await Task.all([handle("a", 20), handle("b", 5)]).run();
+
+    expect(lines).toEqual(["[a] start", "[b] start", "[b] end", "[a] end"]);
+  });
+
+  test("set in concurrent branches should not affect siblings", async () => {
+    const counter = TaskLocal.create(0);
+    const branch = (n: number) =>
+      counter
+        .set(n)
+        .flatMap(() => Task.sleep(5 * (3 - n)))
+        .flatMap(() => counter.get());
+
+    const result = await Task.all([branch(1), branch(2)]).run();
+
+    expect(result).toEqual([1, 2]);
+  });
+
+  test("runs sharing a signal should be isolated", async () => {
+    const requestId = TaskLocal.create("none");
+    const { signal } = new AbortController();
+    const handle = (id: string, ms: number) =>
+      requestId
+        .set(id)
+        .flatMap(() => Task.sleep(ms))
+        .flatMap(() => requestId.get());
+
+    const result = await Promise.all([
+      handle("a", 20).run(signal),
+      handle("b", 5).run(signal),
+    ]);
+
+    expect(result).toEqual(["a", "b"]);
+    await expect(requestId.get().run(signal)).resolves.toBe("none");
+  });
+
+  test("set should apply through named and timeout", async () => {
+    const requestId = TaskLocal.create("none");
+    const named = requestId
+      .set("named")
+      .named("set-request-id")
+      .flatMap(() => requestId.get());
+    const timed = requestId
+      .set("timed")
+      .timeout(1000)
+      .flatMap(() => requestId.get());
+
+    await expect(named.run()).resolves.toBe("named");
+    await expect(timed.run()).resolves.toBe("timed");
+  });
+
+  test("isTaskLocal should identify task locals", () => {
+    expect(TaskLocal.isTaskLocal(TaskLocal.create(1))).toBe(true);
+    expect(TaskLocal.isTaskLocal({})).toBe(false);
+  });
+});
@@ -21,4 +21,53 @@ describe("Main exports", () => {
   test("should export Task utilities", () => {
     expect(Main.Task).toBeDefined();
   });
+
+  test("should export TaskEither utilities", () => {
+    expect(Main.TaskEither).toBeDefined();
+  });
+
+  test("should export Resource utilities", () => {
+    expect(Main.Resource).toBeDefined();
+  });
+
+  test("should export Clock utilities", () => {
+    expect(Main.Clock).toBeDefined();
+  });
+
+  test("should export Stream utilities", () => {
+    expect(Main.Stream).toBeDefined();
+  });
+
+  test("should export ReaderTask utilities", () => {
+    expect(Main.ReaderTask).toBeDefined();
+  });
+
+  test("should export Semaphore and Mutex utilities", () => {
+    expect(Main.Semaphore).toBeDefined();
+    expect(Main.Mutex).toBeDefined();
+  });
+
+  test("should export RateLimiter utilities", () => {
+    expect(Main.RateLimiter).toBeDefined();
+  });
+
+  test("should export CircuitBreaker utilities", () => {
+    expect(Main.CircuitBreaker).toBeDefined();
+  });
+
+  test("should export Schedule utilities", () => {
+    expect(Main.Schedule).toBeDefined();
+  });
+
+  test("should export TaskLocal utilities", () => {
+    expect(Main.TaskLocal).toBeDefined();
+  });
+
+  test("should export Cassette utilities", () => {
+    expect(Main.Cassette).toBeDefined();
+  });
+
+  test("should export Http utilities", () => {
+    expect(Main.Http).toBeDefined();
+  });
 });
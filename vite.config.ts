@@ -14,6 +14,10 @@ export default defineConfig({
         return `index.${format}.js`;
       },
     },
+    rollupOptions: {
+      // Node.js built-ins are only loaded on demand, e.g. by `Cassette.file`.
+      external: [/^node:/],
+    },
   },
   plugins: [
     dts({